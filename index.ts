@@ -1,7 +1,61 @@
 import { PushManager } from "./src/push-manager";
 
 export { PublicPushManager as AutoPushManager } from "./src/push-manager";
+export type {
+  DestroyOptions,
+  HibernationOptions,
+  PushManagerEvents,
+  PushManagerState,
+} from "./src/push-manager";
+export { ExponentialBackoff } from "./src/backoff";
+export type {
+  BackoffJitter,
+  BackoffPolicy,
+  ExponentialBackoffOptions,
+  ReconnectContext,
+} from "./src/backoff";
+export type { FailoverOptions } from "./src/endpoint-pool";
+export type { CircuitBreakerOptions } from "./src/circuit-breaker";
 export { PublicPushSubscription as AutoPushSubscription } from "./src/push-subscription";
+export type { PushSubscriptionOptionsInit } from "./src/push-subscription";
+export type { ApplicationServerKey } from "./src/application-server-key";
+export {
+  CertificateError,
+  CircuitOpenError,
+  ConnectTimeoutError,
+  DisconnectedError,
+  HelloRejectedError,
+  HelloTimeoutError,
+  InvalidApplicationServerKeyError,
+  InvalidMessageError,
+  MessageExpiredError,
+  OperationInterruptedError,
+  OperationRejectedError,
+  OperationTimeoutError,
+  WebPushUnsupportedError,
+} from "./src/errors";
+export type {
+  CloseCategory,
+  CloseClassification,
+  Disconnect,
+  DisconnectAction,
+  DisconnectPolicy,
+} from "./src/close-codes";
+export { LoopbackSocket, LoopbackTransport } from "./src/loopback-transport";
+export type {
+  PushWebSocket,
+  PushWebSocketCloseEvent,
+  PushWebSocketErrorEvent,
+  PushWebSocketMessageEvent,
+  WebSocketFactory,
+} from "./src/transport";
+export { BrowserNetworkMonitor, ProbeNetworkMonitor } from "./src/network";
+export type { NetworkMonitor } from "./src/network";
+export type { ProxyOptions } from "./src/proxy";
+export type { SleepDetectionOptions } from "./src/sleep-detector";
+export type { TlsOptions } from "./src/tls";
+export type { InvalidMessagePolicy, InvalidMessageReason } from "./src/messages/message-validation";
+export type { OutboundQueueOptions } from "./src/messages/outbound-queue";
 export type { Logger } from "./src/logger";
 export type { PublicStorage as StorageInterface } from "./src/storage";
 
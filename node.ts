@@ -0,0 +1,14 @@
+import { withNodeTransport } from "./src/node-transport";
+import { PushManager } from "./src/push-manager";
+
+// The createPushManager declared below takes precedence over the one re-exported from the main entry point
+// eslint-disable-next-line import/export
+export * from "./index";
+export { createNodeWebSocketFactory } from "./src/node-transport";
+
+/**
+ * Creates a PushManager which also supports the Node specific `proxy` and `tls` options
+ */
+// eslint-disable-next-line import/export
+export const createPushManager: typeof PushManager.create = (storage, logger, options = {}) =>
+  PushManager.create(storage, logger, withNodeTransport(options));
@@ -1,23 +1,54 @@
 import * as crypto from "crypto";
+import * as net from "net";
 
 import { createPushManager } from "..";
+import { createPushManager as createNodePushManager } from "../node";
+import { ReconnectContext } from "../src/backoff";
+import { Disconnect } from "../src/close-codes";
 import { deriveKeyAndNonce, generateEcKeys, randomBytes } from "../src/crypto";
-import { ClientAck, ClientAckCodes } from "../src/messages/message";
-import { PushManager } from "../src/push-manager";
+import {
+  CertificateError,
+  CircuitOpenError,
+  ConnectTimeoutError,
+  DisconnectedError,
+  HelloTimeoutError,
+  InvalidApplicationServerKeyError,
+  MessageExpiredError,
+  OperationInterruptedError,
+  OperationRejectedError,
+  OperationTimeoutError,
+  WebPushUnsupportedError,
+} from "../src/errors";
+import { LoopbackTransport } from "../src/loopback-transport";
+import {
+  ClientAck,
+  ClientAckCodes,
+  ClientHello,
+  ClientUnregisterCodes,
+  ServerHello,
+} from "../src/messages/message";
+import { PushManager, PushManagerEvents } from "../src/push-manager";
 import { GenericPushSubscription } from "../src/push-subscription";
 import {
   fromBufferToUrlB64,
   fromUrlB64ToBuffer,
   fromUtf8ToBuffer,
+  newUuid,
+  Uuid,
 } from "../src/string-manipulation";
+import { defaultWebSocketFactory } from "../src/transport";
 
 import {
   applicationPrivateKey,
   applicationPublicKey,
   applicationPublicKeyX,
   applicationPublicKeyY,
+  localhostCertificate,
+  localhostCertificateKey,
 } from "./constants";
+import { TestConnectProxy } from "./test-connect-proxy";
 import { TestLogger } from "./test-logger";
+import { TestNetworkMonitor } from "./test-network-monitor";
 import { TestBackingStore } from "./test-storage";
 import { defaultUaid, helloHandlerWithUaid, TestWebSocketServer } from "./test-websocket-server";
 
@@ -56,7 +87,7 @@ describe("end to end", () => {
       pushManager = await createPushManager(storage, logger, {
         autopushUrl: url,
         // Set reconnect to occur after 10ms
-        reconnectDelay: () => new Promise((resolve) => setTimeout(resolve, 10)),
+        backoff: { initialDelayMs: 10, multiplier: 1, jitter: "none" },
       });
     });
 
@@ -142,52 +173,2144 @@ describe("end to end", () => {
 
       expect(server.identifiedClients[0].uaid).toEqual(newUaid);
 
-      server.sendNotification(sub.channelID);
+      // The subscription was re-registered under the new uaid, keeping its listeners
+      const [reRegistered] = pushManager.getSubscriptions() as GenericPushSubscription[];
+      expect(reRegistered.channelID).not.toEqual(sub.channelID);
+      server.sendNotification(reRegistered.channelID);
 
       await notificationPromise;
       expect(notificationSpy).toHaveBeenCalled();
     });
+
+    it("re-registers subscriptions when the server assigns a different uaid", async () => {
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      const registered = jest.fn();
+      server.registerHandler = (client, message, server) => {
+        registered(message.channelID);
+        server.useDefaultHandlers();
+        server.registerHandler(client, message, server);
+      };
+      server.helloHandler = helloHandlerWithUaid("new-uaid");
+      const replaced = new Promise<string>((resolve) => {
+        pushManager.addEventListener("subscriptionremoved", (removed) =>
+          resolve(removed.toJSON().endpoint),
+        );
+      });
+
+      await closeWebSocket();
+
+      await expect(replaced).resolves.toEqual(sub.toJSON().endpoint);
+      expect(registered).toHaveBeenCalledTimes(1);
+      expect(pushManager.uaid).toEqual("new-uaid");
+      expect(pushManager.getSubscriptions()).toHaveLength(1);
+    });
   });
 
-  describe("Hello", () => {
-    it("connects to the server", async () => {
-      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
-      expect(server.clients).toHaveLength(1);
+  describe("backoff", () => {
+    let contexts: ReconnectContext[];
+    let delayMs: number;
+
+    beforeEach(() => {
+      contexts = [];
+      delayMs = 10;
     });
 
-    it("immediately sends a hello message", async () => {
+    async function createWithBackoff(resetAfterMs: number) {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        backoff: {
+          resetAfterMs,
+          nextDelayMs: (context) => {
+            contexts.push(context);
+            return delayMs;
+          },
+        },
+      });
+    }
+
+    function nextHello() {
+      return new Promise<void>((resolve) => {
+        server.helloHandler = (client, message, server) => {
+          helloHandlerWithUaid(defaultUaid)(client, message, server);
+          resolve();
+        };
+      });
+    }
+
+    async function dropConnection() {
+      const reconnected = nextHello();
+      server.clients[0].ws.close(1011, "Server error");
+      await reconnected;
+    }
+
+    it("passes increasing attempt numbers to the policy while connections keep dropping", async () => {
+      await createWithBackoff(60_000);
+
+      await dropConnection();
+      await dropConnection();
+      await dropConnection();
+
+      expect(contexts.map((c) => c.attempt)).toEqual([1, 2, 3]);
+    });
+
+    it("passes the last close code to the policy", async () => {
+      await createWithBackoff(60_000);
+
+      await dropConnection();
+
+      expect(contexts).toEqual([{ attempt: 1, lastCloseCode: 1011 }]);
+    });
+
+    it("resets the attempt number after a connection stays healthy", async () => {
+      await createWithBackoff(50);
+
+      await dropConnection();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await dropConnection();
+      await dropConnection();
+
+      expect(contexts.map((c) => c.attempt)).toEqual([1, 1, 2]);
+    });
+
+    it("waits for the delay returned by the policy before reconnecting", async () => {
+      await createWithBackoff(60_000);
+      delayMs = 300;
+
+      const start = Date.now();
+      await dropConnection();
+
+      // Allow for timer resolution
+      expect(Date.now() - start).toBeGreaterThanOrEqual(290);
+    });
+
+    it("settles a pending reconnect when disconnected during the delay", async () => {
+      await createWithBackoff(60_000);
+      delayMs = 60_000;
+      // Wrapped, as resolving with the promise itself would wait for it to settle
+      const reconnecting = new Promise<{ pending: Promise<void> }>((resolve) => {
+        const reconnectWithBackoff = pushManager["reconnectWithBackoff"].bind(pushManager);
+        pushManager["reconnectWithBackoff"] = () => {
+          const pending = reconnectWithBackoff();
+          resolve({ pending });
+          return pending;
+        };
+      });
+
+      server.clients[0].ws.close(1011, "Server error");
+      const { pending } = await reconnecting;
+      await pushManager.disconnect();
+
+      await expect(pending).resolves.toBeUndefined();
+      expect(pushManager.state).toEqual("idle");
+    });
+
+    it("still awaits the deprecated reconnectDelay before reconnecting", async () => {
+      const reconnectDelay = jest.fn(() => new Promise<void>((resolve) => setTimeout(resolve, 10)));
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, reconnectDelay });
+
+      await dropConnection();
+
+      expect(reconnectDelay).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("state", () => {
+    beforeEach(async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        backoff: { initialDelayMs: 10, multiplier: 1, jitter: "none" },
+      });
+    });
+
+    it("is connected once created", () => {
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("moves through reconnecting states when the connection drops", async () => {
+      const states: string[] = [];
+      const reconnected = new Promise<void>((resolve) => {
+        pushManager.addEventListener("statechange", (state) => {
+          states.push(state);
+          if (state === "connected") {
+            resolve();
+          }
+        });
+      });
+
+      server.clients[0].ws.close(1011, "Server error");
+      await reconnected;
+
+      expect(states).toEqual(["reconnecting", "connecting", "awaitingHello", "connected"]);
+    });
+
+    it("passes the previous state to listeners", async () => {
+      const listener = jest.fn();
+      pushManager.addEventListener("statechange", listener);
+
+      await pushManager.destroy();
+
+      expect(listener).toHaveBeenCalledWith("destroyed", "connected");
+    });
+
+    it("stops notifying removed listeners", async () => {
+      const listener = jest.fn();
+      const listenerId = pushManager.addEventListener("statechange", listener);
+      pushManager.removeEventListener("statechange", listenerId);
+
+      await pushManager.destroy();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("timeouts", () => {
+    let silentServer: net.Server;
+    const silentSockets: net.Socket[] = [];
+    const silentPort = 1235;
+
+    beforeAll(async () => {
+      // Accepts TCP connections, but never completes the websocket handshake
+      silentServer = net.createServer((socket) => silentSockets.push(socket));
+      await new Promise<void>((resolve) => silentServer.listen(silentPort, resolve));
+    });
+
+    afterAll(async () => {
+      silentSockets.forEach((socket) => socket.destroy());
+      await new Promise((resolve) => silentServer.close(resolve));
+    });
+
+    it("destroys while the websocket is opening with acks pending", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: "ws://localhost:" + silentPort,
+        lazyConnect: true,
+      });
+      const connected = pushManager.connect();
+      pushManager["mediator"].ack({
+        channelID: newUuid(),
+        version: "1",
+        code: ClientAckCodes.SUCCESS,
+      });
+
+      await pushManager.destroy();
+
+      expect(pushManager.state).toEqual("destroyed");
+      await expect(connected).rejects.toThrow("PushManager has been destroyed");
+    });
+
+    it("gives up on unregistering on destroy when connecting does not complete in time", async () => {
       pushManager = await createPushManager(storage, logger, { autopushUrl: url });
-      const client = server.clients[0];
-      expect(client).toHaveReceived(expect.objectContaining({ messageType: "hello" }));
+      await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      await pushManager.destroy();
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: "ws://localhost:" + silentPort,
+        lazyConnect: true,
+        operationTimeoutMs: 100,
+      });
+
+      await pushManager.destroy({ unregisterAll: true });
+
+      expect(pushManager.state).toEqual("destroyed");
+      expect(logger.mock.warn).toHaveBeenCalledWith(
+        expect.stringContaining("did not confirm unregistering"),
+        expect.anything(),
+      );
     });
 
-    it("sends a hello message with the correct uaid", async () => {
-      await storage.write("uaid", JSON.stringify("test-uaid"));
+    it("rejects create with a ConnectTimeoutError when the websocket does not open", async () => {
+      await expect(
+        createPushManager(storage, logger, {
+          autopushUrl: "ws://localhost:" + silentPort,
+          connectTimeoutMs: 100,
+        }),
+      ).rejects.toThrow(ConnectTimeoutError);
+    });
+
+    it("rejects create with a HelloTimeoutError when the server does not answer hello", async () => {
+      server.helloHandler = () => {};
+
+      await expect(
+        createPushManager(storage, logger, { autopushUrl: url, helloTimeoutMs: 100 }),
+      ).rejects.toThrow(HelloTimeoutError);
+    });
+
+    it("does not reconnect after create is rejected", async () => {
+      server.helloHandler = () => {};
+
+      await expect(
+        createPushManager(storage, logger, {
+          autopushUrl: url,
+          helloTimeoutMs: 100,
+          backoff: { initialDelayMs: 10, jitter: "none" },
+        }),
+      ).rejects.toThrow(HelloTimeoutError);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(server.clients).toHaveLength(0);
+    });
+
+    it("rejects create with a ConnectTimeoutError when connections keep being refused", async () => {
+      const refusedPort = 1240;
+
+      await expect(
+        createPushManager(storage, logger, {
+          autopushUrl: "ws://localhost:" + refusedPort,
+          connectTimeoutMs: 100,
+          helloTimeoutMs: 100,
+          backoff: { initialDelayMs: 10, multiplier: 1, jitter: "none" },
+          circuitBreaker: null,
+        }),
+      ).rejects.toThrow(ConnectTimeoutError);
+    });
+
+    it("closes and retries the socket when a reconnect times out", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        helloTimeoutMs: 100,
+        backoff: { initialDelayMs: 10, multiplier: 1, jitter: "none" },
+      });
+
+      let ignoredHellos = 0;
+      server.helloHandler = (client, message, server) => {
+        if (ignoredHellos++ < 1) {
+          return;
+        }
+        helloHandlerWithUaid(defaultUaid)(client, message, server);
+      };
+      const reconnected = new Promise<void>((resolve) => {
+        pushManager.addEventListener("statechange", (state) => {
+          if (state === "connected") {
+            resolve();
+          }
+        });
+      });
+
+      server.clients[0].ws.close(1011, "Server error");
+      await reconnected;
+
+      expect(ignoredHellos).toEqual(2);
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("resolves create as soon as the hello is handled", async () => {
+      const start = Date.now();
       pushManager = await createPushManager(storage, logger, { autopushUrl: url });
-      const client = server.clients[0];
-      expect(client).toHaveReceived({
+
+      expect(Date.now() - start).toBeLessThan(500);
+    });
+  });
+
+  describe("disconnects", () => {
+    const backoff = { initialDelayMs: 10, multiplier: 1, jitter: "none" } as const;
+
+    function nextDisconnect() {
+      return new Promise<Disconnect>((resolve) => {
+        pushManager.addEventListener("disconnected", resolve);
+      });
+    }
+
+    function nextState(state: string) {
+      return new Promise<void>((resolve) => {
+        pushManager.addEventListener("statechange", (newState) => {
+          if (newState === state) {
+            resolve();
+          }
+        });
+      });
+    }
+
+    it("reconnects when the server is going away", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+      const disconnected = nextDisconnect();
+      const reconnected = nextState("connected");
+
+      server.clients[0].ws.close(1001, "Server closing");
+
+      await expect(disconnected).resolves.toEqual({
+        code: 1001,
+        reason: "Server closing",
+        category: "goingAway",
+        action: "reconnect",
+        error: null,
+      });
+      await reconnected;
+    });
+
+    it("does not reconnect after a protocol error", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+      const disconnected = nextDisconnect();
+
+      server.clients[0].ws.close(1002, "Bad request");
+
+      await expect(disconnected).resolves.toMatchObject({
+        category: "protocolError",
+        action: "stop",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(server.clients).toHaveLength(0);
+      expect(pushManager.state).toEqual("idle");
+    });
+
+    it("rejects create with a DisconnectedError when the policy stops during the hello", async () => {
+      server.helloHandler = (client) => client.ws.close(1008, "Unauthorized");
+
+      await expect(
+        createPushManager(storage, logger, { autopushUrl: url, backoff }),
+      ).rejects.toThrow(DisconnectedError);
+    });
+
+    it("resets the uaid and re-registers subscriptions on autopush codes", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      const subscriptionChanged = new Promise<void>((resolve) => {
+        sub.addEventListener("pushsubscriptionchange", () => resolve());
+      });
+      const disconnected = nextDisconnect();
+
+      server.clients[0].ws.close(4000, "Reset");
+
+      await expect(disconnected).resolves.toMatchObject({
+        category: "autopush",
+        action: "resetUaid",
+      });
+      await subscriptionChanged;
+      expect(storage.mock.remove).toHaveBeenCalledWith("uaid");
+      expect(server.clients[0]).toHaveReceived({
         messageType: "hello",
-        uaid: "test-uaid",
+        uaid: "",
         channelIDs: [],
         use_webpush: true,
       });
     });
 
-    it("records the correct uaid to storage", async () => {
-      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
-      expect(storage.mock.write).toHaveBeenCalledWith("uaid", JSON.stringify(defaultUaid));
-      // await expect(storage.read("uaid")).resolves.toEqual(defaultUaid);
+    it("resumes re-registering subscriptions after the next hello when interrupted", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      const replaced = new Promise<string>((resolve) => {
+        pushManager.addEventListener("subscriptionremoved", (removed) =>
+          resolve(removed.toJSON().endpoint),
+        );
+      });
+      let registerReceived!: () => void;
+      const received = new Promise<void>((resolve) => (registerReceived = resolve));
+      server.registerHandler = () => registerReceived();
+
+      server.clients[0].ws.close(4000, "Reset");
+      await received;
+      server.useDefaultHandlers();
+      server.clients[server.clients.length - 1].ws.close(1001, "Server closing");
+
+      await expect(replaced).resolves.toEqual(sub.toJSON().endpoint);
+      expect(pushManager.getSubscriptions()).toHaveLength(1);
+      expect(storage.store.get("reInitChannelIDs")).toEqual(JSON.stringify([]));
     });
 
-    it("updates uaid in storage when a new one is received", async () => {
-      await storage.write("uaid", JSON.stringify("test-uaid"));
+    it("uses a custom disconnect policy", async () => {
+      const disconnectPolicy = jest.fn().mockReturnValue("stop");
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        backoff,
+        disconnectPolicy,
+      });
+      const disconnected = nextDisconnect();
+
+      server.clients[0].ws.close(1001, "Server closing");
+
+      await expect(disconnected).resolves.toMatchObject({ action: "stop" });
+      expect(disconnectPolicy).toHaveBeenCalledWith({
+        code: 1001,
+        reason: "Server closing",
+        category: "goingAway",
+      });
+    });
+  });
+
+  describe("invalid messages", () => {
+    const backoff = { initialDelayMs: 10, multiplier: 1, jitter: "none" } as const;
+
+    it("drops invalid messages and stays connected", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+      const disconnected = jest.fn();
+      pushManager.addEventListener("disconnected", disconnected);
+
+      server.clients[0].ws.send("{");
+      server.clients[0].ws.send(JSON.stringify({ messageType: "notification" }));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(pushManager.rejectedMessages).toEqual({
+        undecodable: 0,
+        malformedJson: 1,
+        unknownType: 0,
+        invalidFields: 1,
+      });
+      expect(disconnected).not.toHaveBeenCalled();
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("reconnects on invalid messages when configured to", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        backoff,
+        invalidMessagePolicy: "reconnect",
+      });
+      const disconnected = new Promise<void>((resolve) => {
+        pushManager.addEventListener("disconnected", () => resolve());
+      });
+
+      server.clients[0].ws.send("{");
+
+      await disconnected;
+      expect(pushManager.rejectedMessages.malformedJson).toEqual(1);
+    });
+
+    it("handles binary frames", async () => {
       pushManager = await createPushManager(storage, logger, { autopushUrl: url });
-      const client = server.clients[0];
-      expect(client).toHaveReceived({
-        messageType: "hello",
-        uaid: "test-uaid",
-        channelIDs: [],
-        use_webpush: true,
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      const notified = new Promise<void>((resolve) => {
+        sub.addEventListener("notification", () => resolve());
+      });
+
+      server.clients[0].ws.send(
+        Buffer.from(
+          JSON.stringify({
+            messageType: "notification",
+            channelID: sub.channelID,
+            version: "version",
+            ttl: 60,
+          }),
+        ),
+      );
+
+      await notified;
+    });
+  });
+
+  describe("outbound queue", () => {
+    const backoff = { initialDelayMs: 50, multiplier: 1, jitter: "none" } as const;
+
+    it("sends a subscribe made before connecting once connected", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        lazyConnect: true,
+      });
+
+      const subscribed = pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      await pushManager.connect();
+
+      const sub = await subscribed;
+      expect(server.clients[0]).toHaveReceived(
+        expect.objectContaining({ messageType: "register", channelID: sub.channelID }),
+      );
+    });
+
+    it("sends a subscribe made while reconnecting once reconnected", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+      const disconnected = new Promise<void>((resolve) => {
+        pushManager.addEventListener("disconnected", () => resolve());
+      });
+      server.clients[0].ws.close(1001, "Server closing");
+      await disconnected;
+
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+
+      expect(pushManager.state).toEqual("connected");
+      expect(sub.channelID).toBeDefined();
+    });
+
+    it("rejects a subscribe which could not be sent in time", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        lazyConnect: true,
+        outboundQueue: { expireAfterMs: 50 },
+      });
+
+      await expect(
+        pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: applicationPublicKey,
+        }),
+      ).rejects.toThrow(MessageExpiredError);
+    });
+
+    it("rejects queued messages on destroy", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        lazyConnect: true,
+      });
+      const subscribed = pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+
+      await pushManager.destroy();
+
+      await expect(subscribed).rejects.toThrow("PushManager has been destroyed");
+    });
+  });
+
+  describe("pending operations", () => {
+    const subscribeOptions = { userVisibleOnly: true, applicationServerKey: applicationPublicKey };
+
+    it("rejects a subscribe the server does not answer in time", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        operationTimeoutMs: 50,
+      });
+      server.registerHandler = () => {};
+
+      await expect(pushManager.subscribe(subscribeOptions)).rejects.toThrow(OperationTimeoutError);
+    });
+
+    it("rejects an unsubscribe the server does not answer in time", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        operationTimeoutMs: 50,
+      });
+      const sub = await pushManager.subscribe(subscribeOptions);
+      server.unregisterHandler = () => {};
+
+      await expect(pushManager.unsubscribe(sub.channelID)).rejects.toThrow(OperationTimeoutError);
+    });
+
+    it("rejects a subscribe the server refuses", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      server.registerHandler = (client, message) => {
+        client.ws.send(
+          JSON.stringify({
+            messageType: "register",
+            channelID: message.channelID,
+            pushEndpoint: "",
+            status: 400,
+          }),
+        );
+      };
+
+      const subscribed = pushManager.subscribe(subscribeOptions);
+
+      await expect(subscribed).rejects.toThrow(OperationRejectedError);
+      await expect(subscribed).rejects.toMatchObject({ operation: "register", status: 400 });
+    });
+
+    it("retries a subscribe under a new channelID on conflict", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const registered: Uuid[] = [];
+      const respond = server.registerHandler;
+      server.registerHandler = (client, message, server) => {
+        registered.push(message.channelID);
+        if (registered.length === 1) {
+          client.ws.send(
+            JSON.stringify({
+              messageType: "register",
+              channelID: message.channelID,
+              pushEndpoint: "",
+              status: 409,
+            }),
+          );
+          return;
+        }
+        respond(client, message, server);
+      };
+
+      const sub = await pushManager.subscribe(subscribeOptions);
+
+      expect(registered).toHaveLength(2);
+      expect(registered[0]).not.toEqual(registered[1]);
+      expect(sub.channelID).toEqual(registered[1]);
+    });
+
+    it("shares one registration between concurrent subscribes for the same key", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const registered: Uuid[] = [];
+      const respond = server.registerHandler;
+      server.registerHandler = (client, message, server) => {
+        registered.push(message.channelID);
+        respond(client, message, server);
+      };
+
+      const subs = await Promise.all([
+        pushManager.subscribe(subscribeOptions),
+        pushManager.subscribe(subscribeOptions),
+        pushManager.subscribe(subscribeOptions),
+      ]);
+
+      expect(registered).toHaveLength(1);
+      expect(subs[1]).toBe(subs[0]);
+      expect(subs[2]).toBe(subs[0]);
+    });
+
+    it("registers again after a shared subscribe fails", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        operationTimeoutMs: 50,
+      });
+      const respond = server.registerHandler;
+      server.registerHandler = () => {};
+      const failed = [
+        pushManager.subscribe(subscribeOptions),
+        pushManager.subscribe(subscribeOptions),
+      ];
+      await expect(Promise.all(failed)).rejects.toThrow(OperationTimeoutError);
+      await expect(failed[1]).rejects.toThrow(OperationTimeoutError);
+      server.registerHandler = respond;
+
+      const sub = await pushManager.subscribe(subscribeOptions);
+
+      expect(sub.channelID).toBeDefined();
+    });
+
+    it("rejects a subscribe interrupted by the connection closing", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      let registerReceived!: () => void;
+      const received = new Promise<void>((resolve) => (registerReceived = resolve));
+      server.registerHandler = () => registerReceived();
+
+      const subscribed = pushManager.subscribe(subscribeOptions);
+      await received;
+      server.clients[0].ws.close(1001, "Server closing");
+
+      await expect(subscribed).rejects.toThrow(OperationInterruptedError);
+    });
+  });
+
+  describe("subscriptions", () => {
+    const subscribeOptions = { userVisibleOnly: true, applicationServerKey: applicationPublicKey };
+
+    it("gets subscriptions recovered from storage", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const sub = await pushManager.subscribe(subscribeOptions);
+      await pushManager.destroy();
+
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+
+      expect(pushManager.getSubscription(applicationPublicKey)?.channelID).toEqual(sub.channelID);
+      expect(pushManager.getSubscriptions().map((s) => s.channelID)).toEqual([sub.channelID]);
+    });
+
+    it("gets null for an unknown key", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+
+      expect(pushManager.getSubscription(applicationPublicKey)).toBeNull();
+      expect(pushManager.getSubscriptions()).toEqual([]);
+    });
+
+    it("accepts the application server key as bytes", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: fromUrlB64ToBuffer(applicationPublicKey),
+      });
+
+      expect(sub.options.applicationServerKey).toEqual(applicationPublicKey);
+      expect(server.clients[0]).toHaveReceived(
+        expect.objectContaining({ messageType: "register", key: applicationPublicKey }),
+      );
+      expect(pushManager.getSubscription(fromUrlB64ToBuffer(applicationPublicKey).buffer)).toBe(
+        sub,
+      );
+    });
+
+    it("shares one registration between forms of the same key", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+
+      const subs = await Promise.all([
+        pushManager.subscribe(subscribeOptions),
+        pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: fromUrlB64ToBuffer(applicationPublicKey),
+        }),
+      ]);
+
+      expect(subs[1]).toBe(subs[0]);
+    });
+
+    it("rejects a malformed application server key before sending anything", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const register = jest.fn();
+      server.registerHandler = register;
+
+      await expect(
+        pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: applicationPublicKey.slice(0, -4),
+        }),
+      ).rejects.toThrow(InvalidApplicationServerKeyError);
+      expect(register).not.toHaveBeenCalled();
+    });
+
+    describe("keyless", () => {
+      const keylessOptions = { userVisibleOnly: true, scope: "alerts" };
+
+      it("registers without a key", async () => {
+        pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+
+        const sub = await pushManager.subscribe(keylessOptions);
+
+        expect(server.clients[0]).toHaveReceived({
+          messageType: "register",
+          channelID: sub.channelID,
+        });
+        expect(sub.options).toEqual({
+          userVisibleOnly: true,
+          applicationServerKey: null,
+          scope: "alerts",
+        });
+      });
+
+      it("identifies subscriptions by scope", async () => {
+        pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+
+        const [first, again] = await Promise.all([
+          pushManager.subscribe(keylessOptions),
+          pushManager.subscribe(keylessOptions),
+        ]);
+        const other = await pushManager.subscribe({ userVisibleOnly: true, scope: "news" });
+        const keyed = await pushManager.subscribe(subscribeOptions);
+
+        expect(again).toBe(first);
+        expect(other).not.toBe(first);
+        expect(keyed).not.toBe(first);
+        expect(pushManager.getSubscriptionByScope("alerts")).toBe(first);
+        expect(pushManager.getSubscriptionByScope("unknown")).toBeNull();
+      });
+
+      it("recovers keyless subscriptions from storage", async () => {
+        pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+        const sub = await pushManager.subscribe(keylessOptions);
+        await pushManager.destroy();
+
+        pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+
+        expect(pushManager.getSubscriptionByScope("alerts")?.channelID).toEqual(sub.channelID);
+        await expect(pushManager.subscribe(keylessOptions)).resolves.toMatchObject({
+          channelID: sub.channelID,
+        });
+      });
+
+      it("requires a scope without a key", async () => {
+        pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+
+        await expect(pushManager.subscribe({ userVisibleOnly: true })).rejects.toThrow(
+          "Keyless subscriptions must have a scope",
+        );
+      });
+
+      it("does not allow a scope with a key", async () => {
+        pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+
+        await expect(
+          pushManager.subscribe({ ...subscribeOptions, scope: "alerts" }),
+        ).rejects.toThrow("either an applicationServerKey or a scope");
+      });
+    });
+
+    it("emits subscriptionadded on subscribe", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const added = jest.fn();
+      pushManager.addEventListener("subscriptionadded", added);
+
+      const sub = await pushManager.subscribe(subscribeOptions);
+
+      expect(added).toHaveBeenCalledTimes(1);
+      expect(added).toHaveBeenCalledWith(sub);
+    });
+
+    it("emits subscriptionremoved on unsubscribe", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const sub = await pushManager.subscribe(subscribeOptions);
+      const removed = jest.fn();
+      pushManager.addEventListener("subscriptionremoved", removed);
+
+      await sub.unsubscribe();
+
+      expect(removed).toHaveBeenCalledWith(sub);
+      expect(pushManager.getSubscriptions()).toEqual([]);
+    });
+  });
+
+  describe("lifecycle", () => {
+    const backoff = { initialDelayMs: 10, multiplier: 1, jitter: "none" } as const;
+
+    it("does not connect on create in lazy connect mode", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        lazyConnect: true,
+      });
+
+      expect(server.clients).toHaveLength(0);
+      expect(pushManager.state).toEqual("idle");
+    });
+
+    it("connects on demand in lazy connect mode", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        lazyConnect: true,
+      });
+
+      await pushManager.connect();
+
+      expect(server.clients).toHaveLength(1);
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("does nothing when connecting while already connected", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+
+      await pushManager.connect();
+
+      expect(server.clients).toHaveLength(1);
+    });
+
+    it("closes the connection without reconnecting on disconnect", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+
+      await pushManager.disconnect();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(server.clients).toHaveLength(0);
+      expect(pushManager.state).toEqual("idle");
+    });
+
+    it("reconnects with the same uaid and subscriptions after a disconnect", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+
+      await pushManager.disconnect();
+      await pushManager.connect();
+
+      // The server may not have processed the previous close yet
+      expect(server.clients[server.clients.length - 1]).toHaveReceived({
+        messageType: "hello",
+        uaid: defaultUaid,
+        channelIDs: [sub.channelID],
+        use_webpush: true,
+      });
+    });
+
+    it("flushes pending acks on disconnect", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      const notified = new Promise<void>((resolve) => {
+        sub.addEventListener("notification", () => resolve());
+      });
+      const acked = new Promise<ClientAck>((resolve) => {
+        server.ackHandler = (_client, message) => resolve(message);
+      });
+
+      const version = server.sendNotification(sub.channelID);
+      await notified;
+      // Acks are queued once the notification handler completes
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await pushManager.disconnect();
+
+      await expect(acked).resolves.toEqual({
+        messageType: "ack",
+        updates: [{ channelID: sub.channelID, version, code: ClientAckCodes.SUCCESS }],
+      });
+    });
+
+    it("flushes pending acks on destroy", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      const notified = new Promise<void>((resolve) => {
+        sub.addEventListener("notification", () => resolve());
+      });
+      const acked = new Promise<ClientAck>((resolve) => {
+        server.ackHandler = (_client, message) => resolve(message);
+      });
+
+      const version = server.sendNotification(sub.channelID);
+      await notified;
+      // Acks are queued once the notification handler completes
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await pushManager.destroy();
+
+      await expect(acked).resolves.toEqual({
+        messageType: "ack",
+        updates: [{ channelID: sub.channelID, version, code: ClientAckCodes.SUCCESS }],
+      });
+    });
+
+    it("unregisters every subscription on destroy", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const subs = [
+        await pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: applicationPublicKey,
+        }),
+        await pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: (await generateEcKeys()).uncompressedPublicKey,
+        }),
+      ];
+      const client = server.clients[0];
+
+      await pushManager.destroy({ unregisterAll: true });
+
+      for (const sub of subs) {
+        expect(client).toHaveReceived({
+          messageType: "unregister",
+          channelID: sub.channelID,
+          code: ClientUnregisterCodes.USER_UNSUBSCRIBED,
+        });
+      }
+      expect(pushManager.state).toEqual("destroyed");
+    });
+
+    it("connects to unregister every subscription on destroy while disconnected", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      await pushManager.disconnect();
+
+      await pushManager.destroy({ unregisterAll: true });
+
+      expect(server.clients[server.clients.length - 1]).toHaveReceived({
+        messageType: "unregister",
+        channelID: sub.channelID,
+        code: ClientUnregisterCodes.USER_UNSUBSCRIBED,
+      });
+    });
+
+    it("stops waiting for unregisters the server does not confirm", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        operationTimeoutMs: 100,
+      });
+      await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      server.unregisterHandler = () => {};
+
+      await pushManager.destroy({ unregisterAll: true });
+
+      expect(pushManager.state).toEqual("destroyed");
+      expect(logger.mock.warn).toHaveBeenCalledWith(
+        expect.stringContaining("did not confirm unregistering"),
+        expect.anything(),
+      );
+    });
+
+    it("wipes the uaid and subscriptions from storage on destroy", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+
+      await pushManager.destroy({ wipeStorage: true });
+
+      expect([...storage.store.keys()]).toEqual([]);
+    });
+
+    it("keeps storage on destroy by default", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+
+      await pushManager.destroy();
+
+      expect(storage.store.get("uaid")).toEqual(JSON.stringify(defaultUaid));
+      expect(storage.store.get("channelIDs")).toEqual(JSON.stringify([sub.channelID]));
+    });
+
+    it("connects again after disconnecting while waiting to reconnect", async () => {
+      const refusedUrl = "ws://localhost:1240";
+      let refuse = true;
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        lazyConnect: true,
+        backoff: { initialDelayMs: 60_000, jitter: "none" },
+        circuitBreaker: null,
+        webSocketFactory: (target) => defaultWebSocketFactory(refuse ? refusedUrl : target),
+      });
+      const reconnecting = new Promise<void>((resolve) => {
+        pushManager.addEventListener("statechange", (state) => {
+          if (state === "reconnecting") {
+            resolve();
+          }
+        });
+      });
+      const firstConnect = pushManager.connect();
+      firstConnect.catch(() => {});
+      await reconnecting;
+
+      await pushManager.disconnect();
+
+      await expect(firstConnect).rejects.toThrow("Client disconnected");
+      refuse = false;
+      await pushManager.connect();
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("refuses to connect after destroy", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      await pushManager.destroy();
+
+      await expect(pushManager.connect()).rejects.toThrow("PushManager has been destroyed");
+    });
+
+    it("refuses to disconnect after destroy", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      await pushManager.destroy();
+
+      await expect(pushManager.disconnect()).rejects.toThrow("PushManager has been destroyed");
+      expect(pushManager.state).toEqual("destroyed");
+    });
+  });
+
+  describe("transport", () => {
+    it("creates sockets with the provided factory", async () => {
+      const webSocketFactory = jest.fn(defaultWebSocketFactory);
+
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        webSocketFactory,
+      });
+
+      expect(webSocketFactory).toHaveBeenCalledWith(url);
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("runs over a loopback transport without a network port", async () => {
+      const transport = new LoopbackTransport();
+      const received: unknown[] = [];
+      transport.onconnection = (socket) => {
+        socket.onmessage = ({ data }) => {
+          const message = JSON.parse(data as string);
+          received.push(message);
+          if (message.messageType === "hello") {
+            socket.send(
+              JSON.stringify({
+                messageType: "hello",
+                uaid: "loopback-uaid",
+                status: 200,
+                use_webpush: true,
+              }),
+            );
+          }
+        };
+      };
+
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: "loopback://autopush",
+        webSocketFactory: transport.webSocketFactory,
+      });
+
+      expect(pushManager.uaid).toEqual("loopback-uaid");
+      expect(received).toEqual([expect.objectContaining({ messageType: "hello" })]);
+      expect(server.clients).toHaveLength(0);
+    });
+
+    it("requires the node entry point for proxy and tls options", async () => {
+      await expect(
+        createPushManager(storage, logger, {
+          autopushUrl: url,
+          proxy: "environment",
+        }),
+      ).rejects.toThrow("autopush-manager/node");
+    });
+  });
+
+  describe("proxy", () => {
+    const proxyPort = 1236;
+    let proxy: TestConnectProxy;
+
+    afterEach(async () => {
+      await pushManager?.destroy();
+      await proxy.close();
+    });
+
+    it("tunnels the connection through an explicit proxy", async () => {
+      proxy = new TestConnectProxy(proxyPort);
+      await proxy.listen();
+
+      pushManager = await createNodePushManager(storage, logger, {
+        autopushUrl: url,
+        proxy: { url: proxy.url },
+      });
+
+      expect(proxy.connectRequests).toEqual([`localhost:${port}`]);
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("authenticates with the credentials in the proxy url", async () => {
+      proxy = new TestConnectProxy(proxyPort, { username: "user", password: "p@ss" });
+      await proxy.listen();
+
+      pushManager = await createNodePushManager(storage, logger, {
+        autopushUrl: url,
+        proxy: { url: `http://user:${encodeURIComponent("p@ss")}@localhost:${proxyPort}` },
+      });
+
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("reports the proxy error when the proxy refuses the credentials", async () => {
+      proxy = new TestConnectProxy(proxyPort, { username: "user", password: "pass" });
+      await proxy.listen();
+
+      pushManager = await createNodePushManager(storage, logger, {
+        autopushUrl: url,
+        proxy: { url: proxy.url },
+        lazyConnect: true,
+      });
+      const disconnected = new Promise<Disconnect>((resolve) =>
+        pushManager.addEventListener("disconnected", resolve),
+      );
+      void pushManager.connect().catch(() => {});
+
+      const disconnect = await disconnected;
+      expect(disconnect.error).toContain("407");
+      expect(server.clients).toHaveLength(0);
+    });
+
+    describe("environment", () => {
+      const originalEnv = process.env;
+
+      beforeEach(async () => {
+        proxy = new TestConnectProxy(proxyPort);
+        await proxy.listen();
+        process.env = { ...originalEnv, HTTP_PROXY: proxy.url };
+      });
+
+      afterEach(() => {
+        process.env = originalEnv;
+      });
+
+      it("honors HTTP_PROXY", async () => {
+        pushManager = await createNodePushManager(storage, logger, {
+          autopushUrl: url,
+          proxy: "environment",
+        });
+
+        expect(proxy.connectRequests).toEqual([`localhost:${port}`]);
+      });
+
+      it("honors NO_PROXY", async () => {
+        process.env.NO_PROXY = "localhost";
+
+        pushManager = await createNodePushManager(storage, logger, {
+          autopushUrl: url,
+          proxy: "environment",
+        });
+
+        expect(proxy.connectRequests).toHaveLength(0);
+        expect(pushManager.state).toEqual("connected");
+      });
+    });
+  });
+
+  describe("tls", () => {
+    const tlsPort = 1237;
+    const tlsUrl = "wss://localhost:" + tlsPort;
+    const pin = crypto
+      .createHash("sha256")
+      .update(
+        new crypto.X509Certificate(localhostCertificate).publicKey.export({
+          type: "spki",
+          format: "der",
+        }),
+      )
+      .digest("base64");
+    let tlsServer: TestWebSocketServer;
+
+    beforeAll(() => {
+      tlsServer = new TestWebSocketServer(tlsPort, {
+        cert: localhostCertificate,
+        key: localhostCertificateKey,
+      });
+    });
+
+    afterAll(async () => {
+      await tlsServer.close();
+    });
+
+    afterEach(async () => {
+      await pushManager?.destroy();
+      tlsServer.closeClients();
+    });
+
+    it("trusts the configured CA certificates", async () => {
+      pushManager = await createNodePushManager(storage, logger, {
+        autopushUrl: tlsUrl,
+        tls: { ca: localhostCertificate },
+      });
+
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("rejects certificates which are not trusted", async () => {
+      pushManager = await createNodePushManager(storage, logger, {
+        autopushUrl: tlsUrl,
+        tls: { pins: [pin] },
+        lazyConnect: true,
+      });
+      const certificateErrors: CertificateError[] = [];
+      pushManager.addEventListener("certificateerror", (error) => certificateErrors.push(error));
+
+      await expect(pushManager.connect()).rejects.toThrow(CertificateError);
+      expect(certificateErrors).toEqual([
+        expect.objectContaining({ code: "DEPTH_ZERO_SELF_SIGNED_CERT" }),
+      ]);
+    });
+
+    it("stops reconnecting after a certificate error", async () => {
+      pushManager = await createNodePushManager(storage, logger, {
+        autopushUrl: tlsUrl,
+        tls: { pins: [pin] },
+        backoff: { initialDelayMs: 10 },
+        lazyConnect: true,
+      });
+      const fatal = new Promise<Error>((resolve) =>
+        pushManager.addEventListener("fatal", (_failures, error) => resolve(error)),
+      );
+
+      await expect(pushManager.connect()).rejects.toThrow(CertificateError);
+
+      await expect(fatal).resolves.toBeInstanceOf(CertificateError);
+      expect(pushManager.state).toEqual("idle");
+    });
+
+    it("accepts a chain matching a pin", async () => {
+      pushManager = await createNodePushManager(storage, logger, {
+        autopushUrl: tlsUrl,
+        tls: { ca: localhostCertificate, pins: ["bm90IHRoZSBwaW4=", pin] },
+      });
+
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("rejects a chain matching no pin", async () => {
+      await expect(
+        createNodePushManager(storage, logger, {
+          autopushUrl: tlsUrl,
+          tls: { ca: localhostCertificate, pins: ["bm90IHRoZSBwaW4="] },
+        }),
+      ).rejects.toThrow(expect.objectContaining({ code: "CERT_PIN_MISMATCH" }));
+      expect(tlsServer.clients).toHaveLength(0);
+    });
+
+    it("verifies certificates through a proxy", async () => {
+      const proxy = new TestConnectProxy(1236);
+      await proxy.listen();
+
+      try {
+        pushManager = await createNodePushManager(storage, logger, {
+          autopushUrl: tlsUrl,
+          proxy: { url: proxy.url },
+          tls: { ca: localhostCertificate, pins: [pin] },
+        });
+
+        expect(proxy.connectRequests).toEqual([`localhost:${tlsPort}`]);
+        expect(pushManager.state).toEqual("connected");
+      } finally {
+        await pushManager.destroy();
+        await proxy.close();
+      }
+    });
+  });
+
+  describe("failover", () => {
+    const primaryPort = 1238;
+    const primaryUrl = "ws://localhost:" + primaryPort;
+    const primaryUaid = "a1f4f07e-4bc3-4b5b-8a62-3c2c1e4f4a11";
+    const backoff = { initialDelayMs: 10, multiplier: 1, jitter: "none" } as const;
+    let primary: TestWebSocketServer | null;
+
+    beforeEach(() => {
+      primary = new TestWebSocketServer(primaryPort);
+      primary.helloHandler = helloHandlerWithUaid(primaryUaid);
+    });
+
+    afterEach(async () => {
+      await pushManager?.destroy();
+      await primary?.close();
+    });
+
+    it("connects to the most preferred url", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: [primaryUrl, url],
+        backoff,
+      });
+
+      expect(pushManager.autopushUrl).toEqual(primaryUrl);
+      expect(pushManager.uaid).toEqual(primaryUaid);
+      expect(server.clients).toHaveLength(0);
+    });
+
+    it("fails over when the preferred url is unreachable", async () => {
+      await primary?.close();
+      primary = null;
+
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: [primaryUrl, url],
+        backoff,
+        failover: { maxFailures: 2 },
+      });
+
+      expect(pushManager.autopushUrl).toEqual(url);
+      expect(pushManager.uaid).toEqual(defaultUaid);
+      expect(server.clients[0]).toHaveReceived({
+        messageType: "hello",
+        uaid: "",
+        channelIDs: [],
+        use_webpush: true,
+      });
+    });
+
+    it("does not fail over while the network is offline", async () => {
+      await primary?.close();
+      primary = null;
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: [primaryUrl, url],
+        backoff,
+        failover: { maxFailures: 1 },
+        network: new TestNetworkMonitor(false),
+        lazyConnect: true,
+      });
+      const offline = new Promise<void>((resolve) => {
+        pushManager.addEventListener("statechange", (state) => {
+          if (state === "offline") {
+            resolve();
+          }
+        });
+      });
+
+      pushManager.connect().catch(() => {});
+      await offline;
+
+      expect(pushManager.autopushUrl).toEqual(primaryUrl);
+      expect(server.clients).toHaveLength(0);
+    });
+
+    it("re-registers subscriptions with the new server", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: [primaryUrl, url],
+        backoff,
+        failover: { maxFailures: 1 },
+      });
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      const subscriptionChanged = new Promise<string>((resolve) => {
+        sub.addEventListener("pushsubscriptionchange", (newSubscription) =>
+          resolve(newSubscription.endpoint),
+        );
+      });
+
+      await primary?.close();
+      primary = null;
+
+      const newEndpoint = await subscriptionChanged;
+      expect(newEndpoint).not.toEqual(sub.toJSON().endpoint);
+      expect(pushManager.autopushUrl).toEqual(url);
+      expect(storage.mock.write).toHaveBeenCalledWith("uaid", JSON.stringify(defaultUaid));
+      expect(server.clients[0]).toHaveReceived(
+        expect.objectContaining({ messageType: "register" }),
+      );
+    });
+
+    it("sticks with the fallback url once connected", async () => {
+      await primary?.close();
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: [primaryUrl, url],
+        backoff,
+        failover: { maxFailures: 1 },
+      });
+      primary = new TestWebSocketServer(primaryPort);
+      const reconnected = new Promise<void>((resolve) => {
+        pushManager.addEventListener("statechange", (state) => {
+          if (state === "connected") {
+            resolve();
+          }
+        });
+      });
+
+      server.closeClients();
+      await reconnected;
+
+      expect(pushManager.autopushUrl).toEqual(url);
+      expect(primary.clients).toHaveLength(0);
+    });
+
+    describe("migration", () => {
+      let oldEndpoint: string;
+      let oldChannelID: Uuid;
+
+      beforeEach(async () => {
+        // Subscribe with the primary server, as a previous release configured with it would have
+        pushManager = await createPushManager(storage, logger, { autopushUrl: primaryUrl });
+        const sub = await pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: applicationPublicKey,
+        });
+        oldEndpoint = sub.toJSON().endpoint;
+        oldChannelID = (sub as GenericPushSubscription).channelID;
+        await pushManager.destroy();
+      });
+
+      it("stores the server the uaid belongs to", () => {
+        expect(storage.mock.write).toHaveBeenCalledWith("autopushUrl", JSON.stringify(primaryUrl));
+      });
+
+      it("re-registers subscriptions when the server changes", async () => {
+        pushManager = await createPushManager(storage, logger, {
+          autopushUrl: url,
+          lazyConnect: true,
+        });
+        const subscriptionChanged = new Promise<[string, string]>((resolve) => {
+          pushManager.addEventListener(
+            "pushsubscriptionchange",
+            (newSubscription, oldSubscription) =>
+              resolve([newSubscription.endpoint, oldSubscription.endpoint]),
+          );
+        });
+
+        await pushManager.connect();
+
+        const [newEndpoint, previousEndpoint] = await subscriptionChanged;
+        expect(previousEndpoint).toEqual(oldEndpoint);
+        expect(newEndpoint).not.toEqual(oldEndpoint);
+        expect(server.clients[0]).toHaveReceived({
+          messageType: "hello",
+          uaid: "",
+          channelIDs: [],
+          use_webpush: true,
+        });
+        expect(pushManager.uaid).toEqual(defaultUaid);
+        expect(storage.mock.write).toHaveBeenCalledWith("autopushUrl", JSON.stringify(url));
+        // The test server's endpoints end with the channel id
+        const newChannelID = newEndpoint.split("/").pop();
+        expect(storage.store.get("channelIDs")).toEqual(JSON.stringify([newChannelID]));
+        // The previous server is left alone unless asked to unregister
+        expect(primary?.channelToClientMap.has(oldChannelID)).toBe(true);
+      });
+
+      it("unregisters from the previous server when configured to", async () => {
+        pushManager = await createPushManager(storage, logger, {
+          autopushUrl: url,
+          unregisterOnMigration: true,
+        });
+
+        expect(primary?.channelToClientMap.has(oldChannelID)).toBe(false);
+        expect(pushManager.uaid).toEqual(defaultUaid);
+      });
+
+      it("defers unregistering from the previous server until connect when lazy", async () => {
+        pushManager = await createPushManager(storage, logger, {
+          autopushUrl: url,
+          unregisterOnMigration: true,
+          lazyConnect: true,
+        });
+
+        expect(primary?.channelToClientMap.has(oldChannelID)).toBe(true);
+        expect(pushManager.uaid).toEqual(primaryUaid);
+
+        await pushManager.connect();
+
+        expect(primary?.channelToClientMap.has(oldChannelID)).toBe(false);
+        expect(pushManager.uaid).toEqual(defaultUaid);
+      });
+
+      it("migrates even if the previous server is unreachable", async () => {
+        await primary?.close();
+        primary = null;
+
+        pushManager = await createPushManager(storage, logger, {
+          autopushUrl: url,
+          unregisterOnMigration: true,
+        });
+
+        expect(pushManager.uaid).toEqual(defaultUaid);
+      });
+
+      it("resumes with the previous server if it is still configured", async () => {
+        pushManager = await createPushManager(storage, logger, {
+          autopushUrl: [url, primaryUrl],
+        });
+
+        expect(pushManager.autopushUrl).toEqual(primaryUrl);
+        expect(pushManager.uaid).toEqual(primaryUaid);
+        expect(server.clients).toHaveLength(0);
+      });
+    });
+  });
+
+  describe("reset identity", () => {
+    const newUaid = "new-uaid";
+    let sub: GenericPushSubscription;
+
+    beforeEach(async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      server.helloHandler = helloHandlerWithUaid(newUaid);
+    });
+
+    it("unregisters existing channels", async () => {
+      const unregistered = new Promise<string>((resolve) => {
+        server.unregisterHandler = (client, message, server) => {
+          resolve(message.channelID);
+          server.channelToClientMap.delete(message.channelID);
+          client.ws.send(
+            JSON.stringify({
+              messageType: "unregister",
+              channelID: message.channelID,
+              status: 200,
+            }),
+          );
+        };
+      });
+
+      await pushManager.resetIdentity();
+
+      await expect(unregistered).resolves.toEqual(sub.channelID);
+    });
+
+    it("reconnects with an empty hello", async () => {
+      await pushManager.resetIdentity();
+
+      expect(server.clients[server.clients.length - 1]).toHaveReceived({
+        messageType: "hello",
+        uaid: "",
+        channelIDs: [],
+        use_webpush: true,
+      });
+      expect(pushManager.uaid).toEqual(newUaid);
+      expect(storage.mock.write).toHaveBeenCalledWith("uaid", JSON.stringify(newUaid));
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("re-registers each subscription with fresh keys", async () => {
+      const subscriptionChanged = new Promise<
+        Parameters<PushManagerEvents["pushsubscriptionchange"]>
+      >((resolve) => {
+        pushManager.addEventListener("pushsubscriptionchange", (newSubscription, oldSubscription) =>
+          resolve([newSubscription, oldSubscription]),
+        );
+      });
+
+      await pushManager.resetIdentity();
+
+      const [newSubscription, oldSubscription] = await subscriptionChanged;
+      expect(oldSubscription).toEqual(sub.toJSON());
+      expect(newSubscription.endpoint).not.toEqual(oldSubscription.endpoint);
+      expect(newSubscription.keys.p256dh).not.toEqual(oldSubscription.keys.p256dh);
+      expect(newSubscription.keys.auth).not.toEqual(oldSubscription.keys.auth);
+      expect(server.clients[server.clients.length - 1]).toHaveReceived(
+        expect.objectContaining({ messageType: "register" }),
+      );
+    });
+
+    it("refuses to reset after destroy", async () => {
+      await pushManager.destroy();
+
+      await expect(pushManager.resetIdentity()).rejects.toThrow("PushManager has been destroyed");
+    });
+  });
+
+  describe("network", () => {
+    let network: TestNetworkMonitor;
+
+    function nextState(state: string) {
+      return new Promise<void>((resolve) => {
+        pushManager.addEventListener("statechange", (newState) => {
+          if (newState === state) {
+            resolve();
+          }
+        });
+      });
+    }
+
+    beforeEach(() => {
+      network = new TestNetworkMonitor();
+    });
+
+    it("waits for the network before reconnecting", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        backoff: { initialDelayMs: 10, jitter: "none" },
+        network,
+      });
+      const offline = nextState("offline");
+
+      network.online = false;
+      server.closeClients();
+      await offline;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(server.clients).toHaveLength(0);
+    });
+
+    it("reconnects as soon as the network returns", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        backoff: { initialDelayMs: 10, jitter: "none" },
+        network,
+      });
+      network.online = false;
+      const offline = nextState("offline");
+      server.closeClients();
+      await offline;
+      const reconnected = nextState("connected");
+
+      network.online = true;
+
+      await reconnected;
+      expect(server.clients).toHaveLength(1);
+    });
+
+    it("cancels a scheduled reconnect when the network goes away", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        backoff: { initialDelayMs: 60_000, jitter: "none" },
+        network,
+      });
+      const reconnecting = nextState("reconnecting");
+      server.closeClients();
+      await reconnecting;
+
+      network.online = false;
+      expect(pushManager.state).toEqual("offline");
+
+      const reconnected = nextState("connected");
+      network.online = true;
+      // Much sooner than the backoff delay
+      await reconnected;
+    });
+
+    it("keeps the connection when the network goes away", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, network });
+
+      network.online = false;
+
+      expect(pushManager.state).toEqual("connected");
+    });
+
+    it("stops listening when destroyed", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, network });
+
+      await pushManager.destroy();
+
+      expect(network.listenerCount).toEqual(0);
+    });
+  });
+
+  describe("sleep", () => {
+    const backoff = { initialDelayMs: 60_000, jitter: "none" } as const;
+
+    function nextState(state: string) {
+      return new Promise<void>((resolve) => {
+        pushManager.addEventListener("statechange", (newState) => {
+          if (newState === state) {
+            resolve();
+          }
+        });
+      });
+    }
+
+    function wake(sleptMs: number) {
+      pushManager["woke"](sleptMs);
+    }
+
+    it("replaces the connection without backing off on wake", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+      const resumed = jest.fn();
+      pushManager.addEventListener("resumed", resumed);
+      const reconnecting = nextState("reconnecting");
+      const reconnected = nextState("connected");
+      const oldClient = server.clients[0];
+
+      wake(120_000);
+
+      await reconnecting;
+      await reconnected;
+      expect(resumed).toHaveBeenCalledWith(120_000);
+      expect(server.clients).not.toContain(oldClient);
+      expect(server.clients).toHaveLength(1);
+    });
+
+    it("skips a scheduled reconnect delay on wake", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+      const reconnecting = nextState("reconnecting");
+      server.closeClients();
+      await reconnecting;
+      const reconnected = nextState("connected");
+
+      wake(120_000);
+
+      await reconnected;
+    });
+
+    it("does not connect on wake while idle", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        lazyConnect: true,
+      });
+      const resumed = jest.fn();
+      pushManager.addEventListener("resumed", resumed);
+
+      wake(120_000);
+
+      expect(resumed).toHaveBeenCalledWith(120_000);
+      expect(pushManager.state).toEqual("idle");
+    });
+
+    it("can be disabled", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        sleepDetection: null,
+      });
+
+      expect(pushManager["sleepDetector"]).toBeNull();
+    });
+  });
+
+  describe("circuit breaker", () => {
+    const unreachablePort = 1239;
+    const unreachableUrl = "ws://localhost:" + unreachablePort;
+    const backoff = { initialDelayMs: 10, multiplier: 1, jitter: "none" } as const;
+
+    it("opens after consecutive failures and keeps probing", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: unreachableUrl,
+        backoff,
+        circuitBreaker: { maxFailures: 3, probeIntervalMs: 60_000 },
+        lazyConnect: true,
+      });
+      const circuitOpened = new Promise<readonly Disconnect[]>((resolve) =>
+        pushManager.addEventListener("circuitopen", resolve),
+      );
+
+      await expect(pushManager.connect()).rejects.toThrow(CircuitOpenError);
+
+      const failures = await circuitOpened;
+      expect(failures).toHaveLength(3);
+      expect(failures[0]).toMatchObject({ category: "abnormal", error: expect.any(String) });
+      expect(pushManager.state).toEqual("reconnecting");
+    });
+
+    it("stops reconnecting for good when probing is disabled", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: unreachableUrl,
+        backoff,
+        circuitBreaker: { maxFailures: 2, probeIntervalMs: null },
+        lazyConnect: true,
+      });
+      const fatal = jest.fn();
+      pushManager.addEventListener("fatal", fatal);
+
+      await expect(pushManager.connect()).rejects.toThrow(CircuitOpenError);
+
+      expect(fatal).toHaveBeenCalledWith(
+        [expect.anything(), expect.anything()],
+        expect.any(CircuitOpenError),
+      );
+      expect(pushManager.state).toEqual("idle");
+    });
+
+    it("fails a connect made once reconnecting stopped", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: unreachableUrl,
+        backoff,
+        circuitBreaker: { maxFailures: 2, probeIntervalMs: null },
+        lazyConnect: true,
+      });
+      await expect(pushManager.connect()).rejects.toThrow(CircuitOpenError);
+
+      await expect(pushManager.connect()).rejects.toThrow(CircuitOpenError);
+      expect(pushManager.state).toEqual("idle");
+    });
+
+    it("fails a connect made while the circuit is open once its probe fails", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: unreachableUrl,
+        backoff,
+        circuitBreaker: { maxFailures: 2, probeIntervalMs: 60_000 },
+        lazyConnect: true,
+      });
+      await expect(pushManager.connect()).rejects.toThrow(CircuitOpenError);
+
+      await expect(pushManager.connect()).rejects.toThrow(CircuitOpenError);
+      expect(pushManager.state).toEqual("reconnecting");
+    });
+
+    it("closes once a probe succeeds", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: unreachableUrl,
+        backoff,
+        circuitBreaker: { maxFailures: 2, probeIntervalMs: 100 },
+        lazyConnect: true,
+      });
+      const circuitClosed = new Promise<void>((resolve) =>
+        pushManager.addEventListener("circuitclose", resolve),
+      );
+      await expect(pushManager.connect()).rejects.toThrow(CircuitOpenError);
+
+      const recovered = new TestWebSocketServer(unreachablePort);
+      try {
+        await circuitClosed;
+        expect(pushManager.state).toEqual("connected");
+      } finally {
+        await pushManager.destroy();
+        await recovered.close();
+      }
+    });
+  });
+
+  describe("hibernation", () => {
+    function nextState(state: string) {
+      return new Promise<void>((resolve) => {
+        pushManager.addEventListener("statechange", (newState) => {
+          if (newState === state) {
+            resolve();
+          }
+        });
+      });
+    }
+
+    it("hibernates once the connection is drained", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        hibernation: { drainMs: 50, wakeIntervalMs: 60_000 },
+      });
+      const hibernating = nextState("hibernating");
+
+      await hibernating;
+
+      expect(server.clients).toHaveLength(0);
+    });
+
+    it("acks notifications before hibernating", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        hibernation: { drainMs: 200, wakeIntervalMs: 60_000 },
+      });
+      const sub = await pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationPublicKey,
+      });
+      const acked = new Promise<ClientAck>((resolve) => {
+        server.ackHandler = (_client, message) => resolve(message);
+      });
+      const hibernating = nextState("hibernating");
+
+      const version = server.sendNotification(sub.channelID);
+      await hibernating;
+
+      await expect(acked).resolves.toEqual({
+        messageType: "ack",
+        updates: [{ channelID: sub.channelID, version, code: ClientAckCodes.SUCCESS }],
+      });
+    });
+
+    it("wakes on schedule", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        hibernation: { drainMs: 20, wakeIntervalMs: 50 },
+      });
+      await nextState("hibernating");
+
+      await nextState("connected");
+      await nextState("hibernating");
+    });
+
+    it("wakes on demand", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        hibernation: { drainMs: 20, wakeIntervalMs: 60_000 },
+      });
+      await nextState("hibernating");
+
+      await pushManager.connect();
+
+      expect(pushManager.state).toEqual("connected");
+      expect(server.clients).toHaveLength(1);
+    });
+
+    it("does not wake after disconnect", async () => {
+      pushManager = await createPushManager(storage, logger, {
+        autopushUrl: url,
+        hibernation: { drainMs: 20, wakeIntervalMs: 50 },
+      });
+      await nextState("hibernating");
+
+      await pushManager.disconnect();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(pushManager.state).toEqual("idle");
+      expect(server.clients).toHaveLength(0);
+    });
+  });
+
+  describe("Hello", () => {
+    it("connects to the server", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      expect(server.clients).toHaveLength(1);
+    });
+
+    it("immediately sends a hello message", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const client = server.clients[0];
+      expect(client).toHaveReceived(expect.objectContaining({ messageType: "hello" }));
+    });
+
+    it("sends a hello message with the correct uaid", async () => {
+      await storage.write("uaid", JSON.stringify("test-uaid"));
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const client = server.clients[0];
+      expect(client).toHaveReceived({
+        messageType: "hello",
+        uaid: "test-uaid",
+        channelIDs: [],
+        use_webpush: true,
+      });
+    });
+
+    it("records the correct uaid to storage", async () => {
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      expect(storage.mock.write).toHaveBeenCalledWith("uaid", JSON.stringify(defaultUaid));
+      // await expect(storage.read("uaid")).resolves.toEqual(defaultUaid);
+    });
+
+    it("updates uaid in storage when a new one is received", async () => {
+      await storage.write("uaid", JSON.stringify("test-uaid"));
+      pushManager = await createPushManager(storage, logger, { autopushUrl: url });
+      const client = server.clients[0];
+      expect(client).toHaveReceived({
+        messageType: "hello",
+        uaid: "test-uaid",
+        channelIDs: [],
+        use_webpush: true,
+      });
+    });
+
+    describe("status", () => {
+      const backoff = { initialDelayMs: 10, multiplier: 1, jitter: "none" } as const;
+
+      let hellos: ClientHello[];
+
+      /** Answers the first hello with the given response, and later ones as usual */
+      function rejectFirstHello(response: Partial<ServerHello>) {
+        hellos = [];
+        server.helloHandler = (client, message, server) => {
+          hellos.push(message);
+          if (hellos.length > 1) {
+            helloHandlerWithUaid(defaultUaid)(client, message, server);
+            return;
+          }
+          const hello: ServerHello = {
+            messageType: "hello",
+            uaid: defaultUaid,
+            use_webpush: true,
+            status: 200,
+            ...response,
+          };
+          client.ws.send(JSON.stringify(hello));
+        };
+      }
+
+      it("reconnects with backoff when the hello fails", async () => {
+        rejectFirstHello({ status: 503 });
+        pushManager = await createPushManager(storage, logger, {
+          autopushUrl: url,
+          backoff,
+          lazyConnect: true,
+        });
+        const disconnected = jest.fn();
+        pushManager.addEventListener("disconnected", disconnected);
+
+        await pushManager.connect();
+
+        expect(hellos).toHaveLength(2);
+        expect(disconnected).toHaveBeenCalledWith(
+          expect.objectContaining({
+            action: "reconnect",
+            error: "Server rejected hello with status 503",
+          }),
+        );
+        expect(pushManager.state).toEqual("connected");
+      });
+
+      it("does not complete a failed hello", async () => {
+        rejectFirstHello({ status: 503, uaid: "rejected-uaid" });
+        pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+
+        expect(storage.mock.write).not.toHaveBeenCalledWith(
+          "uaid",
+          JSON.stringify("rejected-uaid"),
+        );
+      });
+
+      it("forgets a rejected uaid and sends a new hello", async () => {
+        await storage.write("uaid", JSON.stringify("test-uaid"));
+        rejectFirstHello({ status: 409 });
+        pushManager = await createPushManager(storage, logger, { autopushUrl: url, backoff });
+
+        expect(storage.mock.remove).toHaveBeenCalledWith("uaid");
+        expect(hellos).toEqual([
+          expect.objectContaining({ uaid: "test-uaid" }),
+          { messageType: "hello", uaid: "", channelIDs: [], use_webpush: true },
+        ]);
+        expect(pushManager.uaid).toEqual(defaultUaid);
+      });
+
+      it("stops reconnecting when the server does not support webpush", async () => {
+        rejectFirstHello({ use_webpush: false });
+        pushManager = await createPushManager(storage, logger, {
+          autopushUrl: url,
+          backoff,
+          lazyConnect: true,
+        });
+        const fatal = jest.fn();
+        pushManager.addEventListener("fatal", fatal);
+
+        await expect(pushManager.connect()).rejects.toThrow(WebPushUnsupportedError);
+
+        expect(fatal).toHaveBeenCalledWith(
+          [expect.objectContaining({ action: "stop" })],
+          expect.any(WebPushUnsupportedError),
+        );
+        expect(pushManager.state).toEqual("idle");
+        expect(hellos).toHaveLength(1);
       });
     });
 
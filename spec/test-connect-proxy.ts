@@ -0,0 +1,77 @@
+import * as http from "http";
+import * as net from "net";
+
+/**
+ * A minimal HTTP proxy which only supports tunneling through CONNECT
+ */
+export class TestConnectProxy {
+  readonly server: http.Server;
+  /** The authority (`host:port`) of every CONNECT request received */
+  readonly connectRequests: string[] = [];
+  private readonly sockets: Set<net.Socket> = new Set();
+
+  /**
+   * @param port The port to listen on
+   * @param credentials If set, requests must carry these basic auth credentials
+   */
+  constructor(
+    readonly port: number,
+    private readonly credentials?: { username: string; password: string },
+  ) {
+    this.server = http.createServer((_req, res) => {
+      res.writeHead(405);
+      res.end();
+    });
+
+    this.server.on("connect", (req: http.IncomingMessage, clientSocket: net.Socket, head) => {
+      this.track(clientSocket);
+      this.connectRequests.push(req.url ?? "");
+
+      if (!this.isAuthorized(req)) {
+        clientSocket.end("HTTP/1.1 407 Proxy Authentication Required\r\n\r\n");
+        return;
+      }
+
+      const [host, port] = (req.url ?? "").split(":");
+      const upstream = net.connect(Number(port), host, () => {
+        clientSocket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        upstream.write(head);
+        upstream.pipe(clientSocket);
+        clientSocket.pipe(upstream);
+      });
+      this.track(upstream);
+      upstream.on("error", () => clientSocket.destroy());
+      clientSocket.on("error", () => upstream.destroy());
+    });
+  }
+
+  async listen() {
+    await new Promise<void>((resolve) => this.server.listen(this.port, resolve));
+  }
+
+  async close() {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  get url() {
+    return `http://localhost:${this.port}`;
+  }
+
+  private isAuthorized(req: http.IncomingMessage) {
+    if (!this.credentials) {
+      return true;
+    }
+    const expected = Buffer.from(
+      `${this.credentials.username}:${this.credentials.password}`,
+    ).toString("base64");
+    return req.headers["proxy-authorization"] === `Basic ${expected}`;
+  }
+
+  private track(socket: net.Socket) {
+    this.sockets.add(socket);
+    socket.on("close", () => this.sockets.delete(socket));
+  }
+}
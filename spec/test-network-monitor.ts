@@ -0,0 +1,32 @@
+import { NetworkMonitor } from "../src/network";
+
+/**
+ * A network monitor whose availability is set by the test
+ */
+export class TestNetworkMonitor implements NetworkMonitor {
+  private readonly listeners: Set<(online: boolean) => void> = new Set();
+
+  constructor(private _online = true) {}
+
+  get online() {
+    return this._online;
+  }
+
+  set online(online: boolean) {
+    this._online = online;
+    for (const listener of this.listeners) {
+      listener(online);
+    }
+  }
+
+  get listenerCount() {
+    return this.listeners.size;
+  }
+
+  onChange(listener: (online: boolean) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import * as https from "https";
+
 import { WebSocketServer, WebSocket } from "ws";
 
 import {
@@ -37,7 +39,7 @@ const helloHandler = (
   const response: ServerHello = {
     messageType: "hello",
     uaid: uaidToAssign,
-    useWebPush: true,
+    use_webpush: true,
     status: 200,
     // broadcasts: {},
   };
@@ -105,9 +107,23 @@ export class TestWebSocketServer {
   nackHandler!: typeof defaultNackHandler;
   serverPingHandler!: typeof defaultPingHandler;
 
-  constructor(port: number) {
+  private readonly httpsServer: https.Server | null = null;
+
+  /**
+   * @param port The port to listen on
+   * @param tls If set, serves `wss` with this certificate and private key instead of `ws`
+   */
+  constructor(
+    private readonly _port: number,
+    tls?: { cert: string; key: string },
+  ) {
     this.useDefaultHandlers();
-    this.server = new WebSocketServer({ port });
+    if (tls) {
+      this.httpsServer = https.createServer(tls).listen(_port);
+      this.server = new WebSocketServer({ server: this.httpsServer });
+    } else {
+      this.server = new WebSocketServer({ port: _port });
+    }
     this.channelToClientMap = new Map();
 
     this.server.on("connection", (ws) => {
@@ -165,6 +181,8 @@ export class TestWebSocketServer {
       this.server.close((e) => {
         if (e) {
           reject(e);
+        } else if (this.httpsServer) {
+          this.httpsServer.close(() => resolve());
         } else {
           resolve();
         }
@@ -173,7 +191,7 @@ export class TestWebSocketServer {
   }
 
   get port() {
-    return this.server.options.port;
+    return this._port;
   }
 
   clientFor(ws: WebSocket) {
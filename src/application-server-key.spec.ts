@@ -0,0 +1,82 @@
+import { applicationPublicKey } from "../spec/constants";
+
+import {
+  normalizeApplicationServerKey,
+  validateApplicationServerKey,
+} from "./application-server-key";
+import { InvalidApplicationServerKeyError } from "./errors";
+import { fromUrlB64ToBuffer } from "./string-manipulation";
+
+describe("normalizeApplicationServerKey", () => {
+  const bytes = fromUrlB64ToBuffer(applicationPublicKey);
+
+  it("keeps a base64url key", () => {
+    expect(normalizeApplicationServerKey(applicationPublicKey)).toEqual(applicationPublicKey);
+  });
+
+  it("encodes a Uint8Array", () => {
+    expect(normalizeApplicationServerKey(new Uint8Array(bytes))).toEqual(applicationPublicKey);
+  });
+
+  it("encodes an ArrayBuffer", () => {
+    expect(normalizeApplicationServerKey(new Uint8Array(bytes).buffer)).toEqual(
+      applicationPublicKey,
+    );
+  });
+
+  it("encodes only the viewed bytes of a view", () => {
+    const padded = new Uint8Array(bytes.length + 2);
+    padded.set(bytes, 1);
+
+    const view = new DataView(padded.buffer, 1, bytes.length);
+
+    expect(normalizeApplicationServerKey(view)).toEqual(applicationPublicKey);
+  });
+
+  it("drops base64url padding", () => {
+    expect(normalizeApplicationServerKey(applicationPublicKey + "=")).toEqual(applicationPublicKey);
+  });
+
+  it("rejects keys of the wrong length", () => {
+    expect(() => normalizeApplicationServerKey(bytes.slice(0, 33))).toThrow(
+      InvalidApplicationServerKeyError,
+    );
+  });
+
+  it("rejects compressed points", () => {
+    const compressed = new Uint8Array(bytes);
+    compressed[0] = 0x02;
+
+    expect(() => normalizeApplicationServerKey(compressed)).toThrow(
+      InvalidApplicationServerKeyError,
+    );
+  });
+
+  it("rejects strings which are not base64url", () => {
+    expect(() => normalizeApplicationServerKey("a")).toThrow(InvalidApplicationServerKeyError);
+  });
+
+  it("rejects other types", () => {
+    expect(() => normalizeApplicationServerKey(42 as unknown as string)).toThrow(
+      InvalidApplicationServerKeyError,
+    );
+  });
+});
+
+describe("validateApplicationServerKey", () => {
+  it("accepts a P-256 public key", async () => {
+    await expect(validateApplicationServerKey(applicationPublicKey)).resolves.toEqual(
+      applicationPublicKey,
+    );
+  });
+
+  it("rejects a point which is not on the curve", async () => {
+    const offCurve = new Uint8Array(65);
+    offCurve[0] = 0x04;
+    offCurve[1] = 1;
+
+    await expect(validateApplicationServerKey(offCurve)).rejects.toThrow(
+      InvalidApplicationServerKeyError,
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { importEcdsaPublicKey } from "./crypto";
+import { InvalidApplicationServerKeyError } from "./errors";
+import { fromBufferToUrlB64, fromUrlB64ToBuffer } from "./string-manipulation";
+
+/**
+ * A VAPID public key, as accepted by the native `PushManager`: base64url encoded or as bytes
+ */
+export type ApplicationServerKey = string | BufferSource;
+
+/** An uncompressed point is a 0x04 prefix followed by the 32 byte x and y coordinates */
+const UNCOMPRESSED_POINT_LENGTH = 65;
+const UNCOMPRESSED_POINT_PREFIX = 0x04;
+
+/**
+ * Converts an application server key to its canonical base64url form, which identifies the key in storage and in
+ * register messages. Only the shape of the key is checked, see {@link validateApplicationServerKey}
+ * @throws {InvalidApplicationServerKeyError} If the key cannot be decoded or is not an uncompressed point
+ */
+export function normalizeApplicationServerKey(key: ApplicationServerKey): string {
+  const bytes = toBytes(key);
+  if (bytes.byteLength !== UNCOMPRESSED_POINT_LENGTH) {
+    throw new InvalidApplicationServerKeyError(
+      `Application server key must be ${UNCOMPRESSED_POINT_LENGTH} bytes, got ${bytes.byteLength}`,
+    );
+  }
+  if (bytes[0] !== UNCOMPRESSED_POINT_PREFIX) {
+    throw new InvalidApplicationServerKeyError(
+      "Application server key must be an uncompressed point, starting with 0x04",
+    );
+  }
+  return fromBufferToUrlB64(bytes);
+}
+
+/**
+ * Normalizes an application server key and checks that it is a point on the P-256 curve
+ * @returns The key in canonical base64url form
+ * @throws {InvalidApplicationServerKeyError} If the key is not an uncompressed P-256 public key
+ */
+export async function validateApplicationServerKey(key: ApplicationServerKey): Promise<string> {
+  const normalized = normalizeApplicationServerKey(key);
+  try {
+    await importEcdsaPublicKey(fromUrlB64ToBuffer(normalized));
+  } catch (e) {
+    throw new InvalidApplicationServerKeyError(
+      `Application server key is not a P-256 public key: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+  return normalized;
+}
+
+function toBytes(key: ApplicationServerKey): Uint8Array {
+  if (typeof key === "string") {
+    try {
+      return fromUrlB64ToBuffer(key);
+    } catch (e) {
+      throw new InvalidApplicationServerKeyError(
+        `Application server key is not valid base64url: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  }
+  if (key instanceof ArrayBuffer) {
+    return new Uint8Array(key.slice(0));
+  }
+  if (ArrayBuffer.isView(key)) {
+    return new Uint8Array(key.buffer.slice(key.byteOffset, key.byteOffset + key.byteLength));
+  }
+  throw new InvalidApplicationServerKeyError(
+    "Application server key must be a base64url string, an ArrayBuffer or an ArrayBufferView",
+  );
+}
@@ -0,0 +1,97 @@
+import { mock } from "jest-mock-extended";
+
+import { BackoffPolicy, ExponentialBackoff, toBackoffPolicy } from "./backoff";
+
+describe("ExponentialBackoff", () => {
+  const context = (attempt: number) => ({ attempt, lastCloseCode: null });
+
+  describe("without jitter", () => {
+    const backoff = new ExponentialBackoff({
+      initialDelayMs: 100,
+      multiplier: 2,
+      maxDelayMs: 1_000,
+      jitter: "none",
+    });
+
+    it("starts at the initial delay", () => {
+      expect(backoff.nextDelayMs(context(1))).toEqual(100);
+    });
+
+    it("grows by the multiplier for each attempt", () => {
+      expect(backoff.nextDelayMs(context(2))).toEqual(200);
+      expect(backoff.nextDelayMs(context(3))).toEqual(400);
+    });
+
+    it("is capped at the max delay", () => {
+      expect(backoff.nextDelayMs(context(10))).toEqual(1_000);
+    });
+  });
+
+  describe("full jitter", () => {
+    it("picks a delay between 0 and the exponential delay", () => {
+      const random = jest.fn().mockReturnValueOnce(0).mockReturnValueOnce(0.5);
+      const backoff = new ExponentialBackoff(
+        { initialDelayMs: 100, multiplier: 2, jitter: "full" },
+        random,
+      );
+
+      expect(backoff.nextDelayMs(context(3))).toEqual(0);
+      expect(backoff.nextDelayMs(context(3))).toEqual(200);
+    });
+  });
+
+  describe("decorrelated jitter", () => {
+    it("picks a delay between the initial delay and three times the previous delay", () => {
+      const random = jest.fn().mockReturnValue(1);
+      const backoff = new ExponentialBackoff(
+        { initialDelayMs: 100, maxDelayMs: 10_000, jitter: "decorrelated" },
+        random,
+      );
+
+      expect(backoff.nextDelayMs(context(1))).toEqual(300);
+      expect(backoff.nextDelayMs(context(2))).toEqual(900);
+    });
+
+    it("restarts from the initial delay on the first attempt", () => {
+      const random = jest.fn().mockReturnValue(1);
+      const backoff = new ExponentialBackoff(
+        { initialDelayMs: 100, maxDelayMs: 10_000, jitter: "decorrelated" },
+        random,
+      );
+
+      backoff.nextDelayMs(context(1));
+      backoff.nextDelayMs(context(2));
+
+      expect(backoff.nextDelayMs(context(1))).toEqual(300);
+    });
+
+    it("is capped at the max delay", () => {
+      const random = jest.fn().mockReturnValue(1);
+      const backoff = new ExponentialBackoff(
+        { initialDelayMs: 100, maxDelayMs: 500, jitter: "decorrelated" },
+        random,
+      );
+
+      backoff.nextDelayMs(context(1));
+
+      expect(backoff.nextDelayMs(context(2))).toEqual(500);
+    });
+  });
+
+  it("defaults resetAfterMs to 60 seconds", () => {
+    expect(new ExponentialBackoff().resetAfterMs).toEqual(60_000);
+  });
+});
+
+describe("toBackoffPolicy", () => {
+  it("returns custom policies as-is", () => {
+    const policy = mock<BackoffPolicy>();
+    policy.nextDelayMs.mockReturnValue(5);
+
+    expect(toBackoffPolicy(policy)).toBe(policy);
+  });
+
+  it("creates an exponential backoff from options", () => {
+    expect(toBackoffPolicy({ initialDelayMs: 5 })).toBeInstanceOf(ExponentialBackoff);
+  });
+});
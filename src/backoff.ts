@@ -0,0 +1,102 @@
+export type ReconnectContext = {
+  /** The number of consecutive reconnect attempts, starting at 1 */
+  readonly attempt: number;
+  /** The close code of the most recent disconnect, or null if none was received */
+  readonly lastCloseCode: number | null;
+};
+
+export interface BackoffPolicy {
+  /** How long a connection must stay open before the attempt counter is reset */
+  readonly resetAfterMs: number;
+  /**
+   * Determines how long to wait before the next reconnect attempt
+   * @param context The attempt number and the reason for the last disconnect
+   * @returns The delay in milliseconds
+   */
+  nextDelayMs(context: ReconnectContext): number;
+}
+
+/**
+ * - `none`: the exponential delay is used as-is
+ * - `full`: a random delay between 0 and the exponential delay
+ * - `decorrelated`: a random delay between the initial delay and three times the previous delay
+ */
+export type BackoffJitter = "none" | "full" | "decorrelated";
+
+export type ExponentialBackoffOptions = {
+  /** The delay before the first reconnect attempt. Defaults to 1 second (1000) */
+  initialDelayMs: number;
+  /** The factor the delay grows by after each failed attempt. Defaults to 2 */
+  multiplier: number;
+  /** The upper bound of any delay. Defaults to 5 minutes (300000) */
+  maxDelayMs: number;
+  /** The randomization applied to each delay. Defaults to `full` */
+  jitter: BackoffJitter;
+  /** How long a connection must stay open before delays restart from the initial delay. Defaults to 60 seconds (60000) */
+  resetAfterMs: number;
+};
+
+const defaultExponentialBackoffOptions: ExponentialBackoffOptions = Object.freeze({
+  initialDelayMs: 1_000,
+  multiplier: 2,
+  maxDelayMs: 300_000, // 5 minutes
+  jitter: "full",
+  resetAfterMs: 60_000, // 60 seconds
+});
+
+export class ExponentialBackoff implements BackoffPolicy {
+  private readonly options: ExponentialBackoffOptions;
+  private previousDelayMs: number;
+  constructor(
+    options: Partial<ExponentialBackoffOptions> = {},
+    private readonly random: () => number = Math.random,
+  ) {
+    this.options = { ...defaultExponentialBackoffOptions, ...options };
+    this.previousDelayMs = this.options.initialDelayMs;
+  }
+
+  get resetAfterMs() {
+    return this.options.resetAfterMs;
+  }
+
+  nextDelayMs({ attempt }: ReconnectContext): number {
+    const { initialDelayMs, maxDelayMs, jitter } = this.options;
+
+    switch (jitter) {
+      case "full":
+        return this.between(0, this.exponentialDelayMs(attempt));
+      case "decorrelated": {
+        if (attempt <= 1) {
+          this.previousDelayMs = initialDelayMs;
+        }
+        const delay = Math.min(maxDelayMs, this.between(initialDelayMs, this.previousDelayMs * 3));
+        this.previousDelayMs = delay;
+        return delay;
+      }
+      default:
+        return this.exponentialDelayMs(attempt);
+    }
+  }
+
+  private exponentialDelayMs(attempt: number) {
+    const { initialDelayMs, multiplier, maxDelayMs } = this.options;
+    return Math.min(maxDelayMs, initialDelayMs * Math.pow(multiplier, Math.max(0, attempt - 1)));
+  }
+
+  private between(min: number, max: number) {
+    return Math.floor(min + this.random() * (max - min));
+  }
+}
+
+/**
+ * Resolves the user-provided backoff option into a policy
+ * @param backoff Either a custom policy or options for the built-in {@link ExponentialBackoff}
+ */
+export function toBackoffPolicy(
+  backoff: BackoffPolicy | Partial<ExponentialBackoffOptions>,
+): BackoffPolicy {
+  if (typeof (backoff as BackoffPolicy).nextDelayMs === "function") {
+    return backoff as BackoffPolicy;
+  }
+  return new ExponentialBackoff(backoff as Partial<ExponentialBackoffOptions>);
+}
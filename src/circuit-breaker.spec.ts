@@ -0,0 +1,85 @@
+import { CircuitBreaker } from "./circuit-breaker";
+import { Disconnect } from "./close-codes";
+
+const failure: Disconnect = {
+  code: 1006,
+  reason: "",
+  category: "abnormal",
+  action: "reconnect",
+  error: "connect ECONNREFUSED",
+};
+
+describe("CircuitBreaker", () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker({ maxFailures: 3, maxDowntimeMs: 60_000 }, () => now);
+  });
+
+  it("starts closed", () => {
+    expect(breaker.state).toEqual("closed");
+  });
+
+  it("opens after maxFailures consecutive failures", () => {
+    expect(breaker.recordFailure(failure)).toBe(false);
+    expect(breaker.recordFailure(failure)).toBe(false);
+    expect(breaker.recordFailure(failure)).toBe(true);
+    expect(breaker.state).toEqual("open");
+    expect(breaker.failures).toEqual([failure, failure, failure]);
+  });
+
+  it("opens after failing for maxDowntimeMs", () => {
+    breaker.recordFailure(failure);
+    now = 60_000;
+
+    expect(breaker.recordFailure(failure)).toBe(true);
+  });
+
+  it("resets on success", () => {
+    breaker.recordFailure(failure);
+    breaker.recordFailure(failure);
+
+    expect(breaker.recordSuccess()).toBe(false);
+    expect(breaker.failures).toEqual([]);
+    now = 60_000;
+    expect(breaker.recordFailure(failure)).toBe(false);
+  });
+
+  describe("when open", () => {
+    beforeEach(() => {
+      breaker.recordFailure(failure);
+      breaker.recordFailure(failure);
+      breaker.recordFailure(failure);
+    });
+
+    it("lets a probe through", () => {
+      breaker.halfOpen();
+
+      expect(breaker.state).toEqual("halfOpen");
+    });
+
+    it("re-opens without reporting when the probe fails", () => {
+      breaker.halfOpen();
+
+      expect(breaker.recordFailure(failure)).toBe(false);
+      expect(breaker.state).toEqual("open");
+    });
+
+    it("keeps only the most recent failures", () => {
+      const latest = { ...failure, code: 1011 };
+      breaker.halfOpen();
+      breaker.recordFailure(latest);
+
+      expect(breaker.failures).toEqual([failure, failure, latest]);
+    });
+
+    it("closes when the probe succeeds", () => {
+      breaker.halfOpen();
+
+      expect(breaker.recordSuccess()).toBe(true);
+      expect(breaker.state).toEqual("closed");
+    });
+  });
+});
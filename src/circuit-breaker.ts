@@ -0,0 +1,105 @@
+import type { Disconnect } from "./close-codes";
+
+export type CircuitBreakerOptions = {
+  /** The number of consecutive failed connection attempts which opens the circuit. Defaults to 10 */
+  maxFailures: number;
+  /** How long connection attempts may keep failing before the circuit opens. Defaults to 30 minutes (1800000) */
+  maxDowntimeMs: number;
+  /**
+   * How long to wait between probes while the circuit is open, or null to stop reconnecting for good once it opens.
+   * Defaults to 10 minutes (600000)
+   */
+  probeIntervalMs: number | null;
+};
+
+const defaultCircuitBreakerOptions: CircuitBreakerOptions = Object.freeze({
+  maxFailures: 10,
+  maxDowntimeMs: 1_800_000, // 30 minutes
+  probeIntervalMs: 600_000, // 10 minutes
+});
+
+/**
+ * - `closed`: connection attempts are made as usual
+ * - `open`: too many attempts failed, attempts are replaced by a probe every `probeIntervalMs`
+ * - `halfOpen`: a probe is in progress, its outcome closes or re-opens the circuit
+ */
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+/**
+ * Tracks connection attempts which fail before completing a hello, opening once the server appears to be persistently
+ * unreachable.
+ */
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private _state: CircuitState = "closed";
+  private _failures: Disconnect[] = [];
+  private failingSince: number | null = null;
+  constructor(
+    options: Partial<CircuitBreakerOptions> = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.options = { ...defaultCircuitBreakerOptions, ...options };
+  }
+
+  get state() {
+    return this._state;
+  }
+
+  get probeIntervalMs() {
+    return this.options.probeIntervalMs;
+  }
+
+  /** The most recent failures since the last successful connection, oldest first */
+  get failures(): readonly Disconnect[] {
+    return this._failures;
+  }
+
+  /**
+   * Records a connection attempt which failed before completing its hello
+   * @returns Whether this failure opened the circuit
+   */
+  recordFailure(disconnect: Disconnect): boolean {
+    const now = this.now();
+    this.failingSince ??= now;
+    this._failures.push(disconnect);
+    if (this._failures.length > this.options.maxFailures) {
+      this._failures.shift();
+    }
+
+    if (this._state === "halfOpen") {
+      // The probe failed, keep waiting
+      this._state = "open";
+      return false;
+    }
+    if (
+      this._state === "closed" &&
+      (this._failures.length >= this.options.maxFailures ||
+        now - this.failingSince >= this.options.maxDowntimeMs)
+    ) {
+      this._state = "open";
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Records a connection which completed its hello
+   * @returns Whether this success closed the circuit
+   */
+  recordSuccess(): boolean {
+    const wasOpen = this._state !== "closed";
+    this._state = "closed";
+    this._failures = [];
+    this.failingSince = null;
+    return wasOpen;
+  }
+
+  /**
+   * Lets a single probe through an open circuit
+   */
+  halfOpen() {
+    if (this._state === "open") {
+      this._state = "halfOpen";
+    }
+  }
+}
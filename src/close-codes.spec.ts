@@ -0,0 +1,39 @@
+import { classifyCloseCode, defaultDisconnectPolicy } from "./close-codes";
+
+describe("classifyCloseCode", () => {
+  it.each([
+    [1000, "normal"],
+    [1001, "goingAway"],
+    [1005, "abnormal"],
+    [1006, "abnormal"],
+    [1002, "protocolError"],
+    [1003, "protocolError"],
+    [1007, "protocolError"],
+    [1009, "protocolError"],
+    [1010, "protocolError"],
+    [1008, "policyViolation"],
+    [1011, "serverError"],
+    [1013, "serverError"],
+    [4000, "autopush"],
+    [4999, "autopush"],
+    [3000, "unknown"],
+  ])("classifies %i as %s", (code, category) => {
+    expect(classifyCloseCode(code)).toEqual(category);
+  });
+});
+
+describe("defaultDisconnectPolicy", () => {
+  const close = (code: number) => ({ code, reason: "", category: classifyCloseCode(code) });
+
+  it.each([
+    [1000, "reconnect"],
+    [1001, "reconnect"],
+    [1006, "reconnect"],
+    [1011, "reconnect"],
+    [1002, "stop"],
+    [1008, "stop"],
+    [4000, "resetUaid"],
+  ])("responds to %i with %s", (code, action) => {
+    expect(defaultDisconnectPolicy(close(code))).toEqual(action);
+  });
+});
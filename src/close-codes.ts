@@ -0,0 +1,87 @@
+/**
+ * - `normal`: the connection was closed on purpose (1000)
+ * - `goingAway`: the server is shutting down or restarting (1001)
+ * - `abnormal`: the connection was lost without a close frame (1005, 1006)
+ * - `protocolError`: the peer could not make sense of a message (1002, 1003, 1007, 1009, 1010)
+ * - `policyViolation`: the server refused the client, e.g. due to failed authentication (1008)
+ * - `serverError`: the server hit an unexpected condition or is overloaded (1011 - 1014)
+ * - `autopush`: an application specific code sent by autopush (4000 - 4999)
+ * - `unknown`: any other code
+ */
+export type CloseCategory =
+  | "normal"
+  | "goingAway"
+  | "abnormal"
+  | "protocolError"
+  | "policyViolation"
+  | "serverError"
+  | "autopush"
+  | "unknown";
+
+/**
+ * - `reconnect`: reconnect using the configured backoff policy
+ * - `resetUaid`: forget the current uaid, reconnect, and re-register all subscriptions
+ * - `stop`: do not reconnect
+ */
+export type DisconnectAction = "reconnect" | "resetUaid" | "stop";
+
+export type CloseClassification = {
+  readonly code: number;
+  readonly reason: string;
+  readonly category: CloseCategory;
+};
+
+export type Disconnect = CloseClassification & {
+  /** The action taken in response to the disconnect */
+  readonly action: DisconnectAction;
+  /** The message of the websocket error preceding the disconnect, if any */
+  readonly error: string | null;
+};
+
+/** Decides how to react to a classified close */
+export type DisconnectPolicy = (close: CloseClassification) => DisconnectAction;
+
+export function classifyCloseCode(code: number): CloseCategory {
+  switch (code) {
+    case 1000:
+      return "normal";
+    case 1001:
+      return "goingAway";
+    case 1005:
+    case 1006:
+      return "abnormal";
+    case 1002:
+    case 1003:
+    case 1007:
+    case 1009:
+    case 1010:
+      return "protocolError";
+    case 1008:
+      return "policyViolation";
+    case 1011:
+    case 1012:
+    case 1013:
+    case 1014:
+      return "serverError";
+  }
+  if (code >= 4000 && code <= 4999) {
+    return "autopush";
+  }
+  return "unknown";
+}
+
+/**
+ * Stops on errors that reconnecting would only repeat, starts over with a new uaid when autopush rejects the client's
+ * state, and otherwise reconnects with backoff.
+ */
+export const defaultDisconnectPolicy: DisconnectPolicy = ({ category }) => {
+  switch (category) {
+    case "protocolError":
+    case "policyViolation":
+      return "stop";
+    case "autopush":
+      return "resetUaid";
+    default:
+      return "reconnect";
+  }
+};
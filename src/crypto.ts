@@ -160,6 +160,18 @@ export async function parsePrivateJwk(jwk: Jsonify<JsonWebKey> | null): Promise<
   };
 }
 
+/**
+ * Imports an uncompressed P-256 public key for ECDSA verification, the form VAPID application server keys take
+ * @param key The uncompressed public key
+ *
+ * @throws If the key is not a point on the P-256 curve
+ */
+export async function importEcdsaPublicKey(key: Uint8Array): Promise<CryptoKey> {
+  return await subtle.importKey("raw", key, { name: "ECDSA", namedCurve: "P-256" }, true, [
+    "verify",
+  ]);
+}
+
 /**
  * Derives a shared secret following RFC-8291 and RFC-8188
  * https://datatracker.ietf.org/doc/html/rfc8291
@@ -0,0 +1,113 @@
+import { EndpointPool } from "./endpoint-pool";
+
+const primary = "wss://primary.example.com";
+const secondary = "wss://secondary.example.com";
+const tertiary = "wss://tertiary.example.com";
+
+describe("EndpointPool", () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it("requires at least one url", () => {
+    expect(() => new EndpointPool([])).toThrow("At least one autopush url is required");
+  });
+
+  it("starts with the most preferred url", () => {
+    expect(new EndpointPool([primary, secondary]).current).toEqual(primary);
+  });
+
+  it("accepts a single url", () => {
+    const pool = new EndpointPool(primary, { maxFailures: 1 });
+
+    expect(pool.recordFailure()).toBeNull();
+    expect(pool.current).toEqual(primary);
+  });
+
+  it("selects a configured url", () => {
+    const pool = new EndpointPool([primary, secondary]);
+
+    expect(pool.select(secondary)).toBe(true);
+    expect(pool.current).toEqual(secondary);
+  });
+
+  it("does not select an unknown url", () => {
+    const pool = new EndpointPool([primary, secondary]);
+
+    expect(pool.select(tertiary)).toBe(false);
+    expect(pool.current).toEqual(primary);
+  });
+
+  it("fails over after maxFailures consecutive failures", () => {
+    const pool = new EndpointPool([primary, secondary], { maxFailures: 2 });
+
+    expect(pool.recordFailure()).toBeNull();
+    expect(pool.current).toEqual(primary);
+    expect(pool.recordFailure()).toEqual(secondary);
+    expect(pool.current).toEqual(secondary);
+  });
+
+  it("resets the failure count on success", () => {
+    const pool = new EndpointPool([primary, secondary], { maxFailures: 2 });
+
+    pool.recordFailure();
+    pool.recordSuccess();
+
+    expect(pool.recordFailure()).toBeNull();
+    expect(pool.current).toEqual(primary);
+  });
+
+  it("sticks with a healthy fallback after the preferred url recovers", () => {
+    const pool = new EndpointPool(
+      [primary, secondary],
+      { maxFailures: 1, unhealthyForMs: 10 },
+      clock,
+    );
+
+    pool.recordFailure();
+    pool.recordSuccess();
+    now = 100;
+
+    expect(pool.current).toEqual(secondary);
+  });
+
+  it("prefers the most preferred healthy url when failing over", () => {
+    const pool = new EndpointPool(
+      [primary, secondary, tertiary],
+      { maxFailures: 1, unhealthyForMs: 10 },
+      clock,
+    );
+
+    expect(pool.recordFailure()).toEqual(secondary);
+    now = 10;
+    expect(pool.recordFailure()).toEqual(primary);
+  });
+
+  it("skips unhealthy urls", () => {
+    const pool = new EndpointPool(
+      [primary, secondary, tertiary],
+      { maxFailures: 1, unhealthyForMs: 10 },
+      clock,
+    );
+
+    expect(pool.recordFailure()).toEqual(secondary);
+    now = 5;
+    expect(pool.recordFailure()).toEqual(tertiary);
+  });
+
+  it("moves on to the next url when every other url is unhealthy", () => {
+    const pool = new EndpointPool(
+      [primary, secondary, tertiary],
+      { maxFailures: 1, unhealthyForMs: 10 },
+      clock,
+    );
+
+    pool.recordFailure();
+    pool.recordFailure();
+
+    expect(pool.recordFailure()).toEqual(primary);
+  });
+});
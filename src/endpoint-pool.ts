@@ -0,0 +1,103 @@
+export type FailoverOptions = {
+  /** The number of consecutive failed connection attempts before an endpoint is failed over from. Defaults to 2 */
+  maxFailures: number;
+  /** How long a failed over endpoint is considered unhealthy and skipped. Defaults to 5 minutes (300000) */
+  unhealthyForMs: number;
+};
+
+const defaultFailoverOptions: FailoverOptions = Object.freeze({
+  maxFailures: 2,
+  unhealthyForMs: 300_000, // 5 minutes
+});
+
+type EndpointHealth = {
+  readonly url: string;
+  consecutiveFailures: number;
+  unhealthyUntil: number | null;
+};
+
+/**
+ * Tracks the health of an ordered list of autopush endpoints and picks the one to connect to.
+ *
+ * The preference is sticky: the current endpoint is kept for as long as connections to it succeed, even if a more
+ * preferred endpoint has recovered. Once it fails too often, the most preferred healthy endpoint takes over.
+ */
+export class EndpointPool {
+  private readonly options: FailoverOptions;
+  private readonly endpoints: EndpointHealth[];
+  private currentIndex = 0;
+  constructor(
+    urls: string | string[],
+    options: Partial<FailoverOptions> = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    const urlList = typeof urls === "string" ? [urls] : urls;
+    if (urlList.length === 0) {
+      throw new Error("At least one autopush url is required");
+    }
+    this.options = { ...defaultFailoverOptions, ...options };
+    this.endpoints = urlList.map((url) => ({ url, consecutiveFailures: 0, unhealthyUntil: null }));
+  }
+
+  /** The endpoint to connect to */
+  get current() {
+    return this.endpoints[this.currentIndex].url;
+  }
+
+  /**
+   * Makes the given endpoint current, if it is one of the configured endpoints
+   * @returns Whether the endpoint is configured
+   */
+  select(url: string) {
+    const index = this.endpoints.findIndex((endpoint) => endpoint.url === url);
+    if (index === -1) {
+      return false;
+    }
+    this.currentIndex = index;
+    return true;
+  }
+
+  /**
+   * Records a connection to the current endpoint which completed its hello
+   */
+  recordSuccess() {
+    const endpoint = this.endpoints[this.currentIndex];
+    endpoint.consecutiveFailures = 0;
+    endpoint.unhealthyUntil = null;
+  }
+
+  /**
+   * Records a connection attempt to the current endpoint which failed before completing its hello, failing over to
+   * another endpoint if it has failed too often
+   * @returns The endpoint that was switched to, or null if the current endpoint is kept
+   */
+  recordFailure(): string | null {
+    const endpoint = this.endpoints[this.currentIndex];
+    endpoint.consecutiveFailures++;
+    if (endpoint.consecutiveFailures < this.options.maxFailures || this.endpoints.length === 1) {
+      return null;
+    }
+
+    endpoint.consecutiveFailures = 0;
+    endpoint.unhealthyUntil = this.now() + this.options.unhealthyForMs;
+    this.currentIndex = this.nextIndex();
+    return this.current;
+  }
+
+  /**
+   * Picks the most preferred healthy endpoint other than the current one. If every other endpoint is unhealthy, the
+   * one after the current endpoint is tried
+   */
+  private nextIndex() {
+    const now = this.now();
+    const healthyIndex = this.endpoints.findIndex(
+      (endpoint, index) =>
+        index !== this.currentIndex &&
+        (endpoint.unhealthyUntil == null || endpoint.unhealthyUntil <= now),
+    );
+    if (healthyIndex !== -1) {
+      return healthyIndex;
+    }
+    return (this.currentIndex + 1) % this.endpoints.length;
+  }
+}
@@ -0,0 +1,27 @@
+import { CertificateError, toCertificateError } from "./errors";
+
+describe("toCertificateError", () => {
+  it("translates certificate verification errors", () => {
+    const error = Object.assign(new Error("self-signed certificate"), {
+      code: "DEPTH_ZERO_SELF_SIGNED_CERT",
+    });
+
+    expect(toCertificateError(error)).toEqual(
+      new CertificateError("self-signed certificate", "DEPTH_ZERO_SELF_SIGNED_CERT"),
+    );
+  });
+
+  it("passes pin mismatches through", () => {
+    const error = new CertificateError("mismatch", "CERT_PIN_MISMATCH");
+
+    expect(toCertificateError(error)).toBe(error);
+  });
+
+  it.each([
+    [Object.assign(new Error("connection refused"), { code: "ECONNREFUSED" })],
+    [new Error("unknown")],
+    [undefined],
+  ])("ignores other errors", (error) => {
+    expect(toCertificateError(error)).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+import type { Disconnect } from "./close-codes";
+import type { InvalidMessageReason } from "./messages/message-validation";
+import type { OperationType } from "./messages/pending-operations";
+
+/**
+ * Thrown when the websocket to the autopush server does not open within the configured `connectTimeoutMs`
+ */
+export class ConnectTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`WebSocket connection was not opened within ${timeoutMs}ms`);
+    this.name = "ConnectTimeoutError";
+  }
+}
+
+/**
+ * Thrown when the autopush server does not answer a hello within the configured `helloTimeoutMs`
+ */
+export class HelloTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Server did not respond to hello within ${timeoutMs}ms`);
+    this.name = "HelloTimeoutError";
+  }
+}
+
+/**
+ * Reported when the autopush server answers a hello with an error status
+ */
+export class HelloRejectedError extends Error {
+  constructor(readonly status: number) {
+    super(`Server rejected hello with status ${status}`);
+    this.name = "HelloRejectedError";
+  }
+}
+
+/**
+ * Reported when the autopush server refuses to operate in webpush mode, which this client requires
+ */
+export class WebPushUnsupportedError extends Error {
+  constructor() {
+    super("Server does not support webpush");
+    this.name = "WebPushUnsupportedError";
+  }
+}
+
+/**
+ * Thrown when a message could not be sent to the autopush server within the outbound queue's `expireAfterMs`, because
+ * there was no connection for that long
+ */
+export class MessageExpiredError extends Error {
+  constructor(
+    readonly messageType: string,
+    readonly timeoutMs: number,
+  ) {
+    super(`${messageType} message could not be sent within ${timeoutMs}ms`);
+    this.name = "MessageExpiredError";
+  }
+}
+
+/**
+ * Thrown when the autopush server does not answer a register or unregister within the configured `operationTimeoutMs`
+ */
+export class OperationTimeoutError extends Error {
+  constructor(
+    readonly operation: OperationType,
+    readonly channelID: string,
+    readonly timeoutMs: number,
+  ) {
+    super(`Server did not answer ${operation} of ${channelID} within ${timeoutMs}ms`);
+    this.name = "OperationTimeoutError";
+  }
+}
+
+/**
+ * Thrown when the autopush server refuses a register or unregister with a status that retrying would not fix
+ */
+export class OperationRejectedError extends Error {
+  constructor(
+    readonly operation: OperationType,
+    readonly channelID: string,
+    readonly status: number,
+  ) {
+    super(`Server rejected ${operation} of ${channelID} with status ${status}`);
+    this.name = "OperationRejectedError";
+  }
+}
+
+/**
+ * Thrown when the connection is lost while a register or unregister awaits the autopush server's answer
+ */
+export class OperationInterruptedError extends Error {
+  constructor(
+    readonly operation: OperationType,
+    readonly channelID: string,
+  ) {
+    super(`Connection lost before the server answered ${operation} of ${channelID}`);
+    this.name = "OperationInterruptedError";
+  }
+}
+
+/**
+ * Thrown when the connection closes before the hello completes and the disconnect policy decides not to reconnect
+ */
+export class DisconnectedError extends Error {
+  constructor(readonly disconnect: Disconnect) {
+    super(`WebSocket closed with code ${disconnect.code} (${disconnect.category})`);
+    this.name = "DisconnectedError";
+  }
+}
+
+/**
+ * Thrown when connection attempts keep failing until the circuit breaker opens
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly failures: readonly Disconnect[]) {
+    super(`Connection failed ${failures.length} times in a row`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Reported when the autopush server's certificate is not trusted, or does not match any configured pin
+ */
+export class CertificateError extends Error {
+  /**
+   * @param message A description of the verification failure
+   * @param code The OpenSSL error code, or `CERT_PIN_MISMATCH` if the chain did not match a pin
+   */
+  constructor(
+    message: string,
+    readonly code: string,
+  ) {
+    super(message);
+    this.name = "CertificateError";
+  }
+}
+
+/** Raised by OpenSSL when the server's certificate chain cannot be verified */
+const certificateErrorCodes = new Set([
+  "CERT_HAS_EXPIRED",
+  "CERT_NOT_YET_VALID",
+  "CERT_REVOKED",
+  "CERT_SIGNATURE_FAILURE",
+  "CERT_UNTRUSTED",
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_GET_ISSUER_CERT",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+]);
+
+/**
+ * Translates the error behind a failed connection into a {@link CertificateError}, if it was caused by the server's
+ * certificate
+ */
+export function toCertificateError(error: unknown): CertificateError | null {
+  if (error instanceof CertificateError) {
+    return error;
+  }
+  // Errors raised by Node internals may come from another realm, so inspect their shape rather than their prototype
+  const { code, message } = (error ?? {}) as Partial<NodeJS.ErrnoException>;
+  if (code && certificateErrorCodes.has(code)) {
+    return new CertificateError(message ?? code, code);
+  }
+  return null;
+}
+
+/**
+ * Reported when the autopush server sends a frame that is not a valid server message
+ */
+export class InvalidMessageError extends Error {
+  /**
+   * @param reason Why the message was rejected
+   * @param message A description of the problem
+   */
+  constructor(
+    readonly reason: InvalidMessageReason,
+    message: string,
+  ) {
+    super(message);
+    this.name = "InvalidMessageError";
+  }
+}
+
+/**
+ * Thrown when an `applicationServerKey` is not an uncompressed P-256 public key, in base64url or as bytes
+ */
+export class InvalidApplicationServerKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidApplicationServerKeyError";
+  }
+}
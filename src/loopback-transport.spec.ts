@@ -0,0 +1,81 @@
+import { LoopbackSocket, LoopbackTransport } from "./loopback-transport";
+
+describe("LoopbackSocket", () => {
+  let client: LoopbackSocket;
+  let server: LoopbackSocket;
+
+  beforeEach(async () => {
+    ({ client, server } = LoopbackSocket.pair("loopback://test"));
+    const opened = new Promise<void>((resolve) => (client.onopen = resolve));
+    client.open();
+    await opened;
+  });
+
+  it("opens both ends", () => {
+    expect(client.readyState).toEqual(1);
+    expect(server.readyState).toEqual(1);
+  });
+
+  it("delivers messages to the other end", async () => {
+    const received = new Promise((resolve) => (server.onmessage = resolve));
+
+    client.send("hello");
+
+    await expect(received).resolves.toEqual({ data: "hello" });
+  });
+
+  it("delivers messages asynchronously", () => {
+    const onmessage = jest.fn();
+    server.onmessage = onmessage;
+
+    client.send("hello");
+
+    expect(onmessage).not.toHaveBeenCalled();
+  });
+
+  it("closes both ends with the given code and reason", async () => {
+    const clientClosed = new Promise((resolve) => (client.onclose = resolve));
+    const serverClosed = new Promise((resolve) => (server.onclose = resolve));
+
+    server.close(1001, "Going away");
+
+    await expect(clientClosed).resolves.toEqual({ code: 1001, reason: "Going away" });
+    await expect(serverClosed).resolves.toEqual({ code: 1001, reason: "Going away" });
+    expect(client.readyState).toEqual(3);
+  });
+
+  it("closes abnormally on terminate", async () => {
+    const serverClosed = new Promise((resolve) => (server.onclose = resolve));
+
+    client.terminate();
+
+    await expect(serverClosed).resolves.toEqual({ code: 1006, reason: "" });
+  });
+
+  it("throws when sending on a closed socket", () => {
+    client.close();
+
+    expect(() => client.send("hello")).toThrow("Loopback socket is not open");
+  });
+});
+
+describe("LoopbackTransport", () => {
+  it("hands the server end of each connection to the listener", () => {
+    const transport = new LoopbackTransport();
+    const onconnection = jest.fn();
+    transport.onconnection = onconnection;
+
+    const client = transport.webSocketFactory("loopback://test");
+
+    expect(onconnection).toHaveBeenCalledWith(expect.any(LoopbackSocket));
+    expect(onconnection.mock.calls[0][0]).not.toBe(client);
+  });
+
+  it("throws when nothing is listening", () => {
+    const transport = new LoopbackTransport();
+
+    expect(() => transport.webSocketFactory("loopback://test")).toThrow(
+      "No loopback server is listening",
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  PushWebSocket,
+  PushWebSocketCloseEvent,
+  PushWebSocketErrorEvent,
+  PushWebSocketMessageEvent,
+  WebSocketFactory,
+} from "./transport";
+
+const ReadyState = Object.freeze({
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3,
+} as const);
+type ReadyState = (typeof ReadyState)[keyof typeof ReadyState];
+
+/**
+ * One end of an in-process socket pair. Messages sent on one end are delivered asynchronously to the other, as they
+ * would be over a network.
+ */
+export class LoopbackSocket implements PushWebSocket {
+  onopen: (() => void) | null = null;
+  onmessage: ((event: PushWebSocketMessageEvent) => void) | null = null;
+  onerror: ((event: PushWebSocketErrorEvent) => void) | null = null;
+  onclose: ((event: PushWebSocketCloseEvent) => void) | null = null;
+  readonly bufferedAmount = 0;
+  private _readyState: ReadyState = ReadyState.CONNECTING;
+  private peer!: LoopbackSocket; // This is assigned in the pair method
+
+  private constructor(readonly url: string) {}
+
+  /**
+   * Creates two connected sockets
+   * @param url The url the client socket was requested for
+   * @returns The client end, to hand to the PushManager, and the server end, to drive from a fake server
+   */
+  static pair(url: string): { client: LoopbackSocket; server: LoopbackSocket } {
+    const client = new LoopbackSocket(url);
+    const server = new LoopbackSocket(url);
+    client.peer = server;
+    server.peer = client;
+    return { client, server };
+  }
+
+  get readyState() {
+    return this._readyState;
+  }
+
+  send(data: string): void {
+    if (this._readyState !== ReadyState.OPEN) {
+      throw new Error("Loopback socket is not open");
+    }
+    const peer = this.peer;
+    setTimeout(() => {
+      if (peer._readyState === ReadyState.OPEN) {
+        peer.onmessage?.({ data });
+      }
+    }, 0);
+  }
+
+  close(code = 1005, reason = ""): void {
+    if (this._readyState === ReadyState.CLOSING || this._readyState === ReadyState.CLOSED) {
+      return;
+    }
+    this._readyState = ReadyState.CLOSING;
+    this.peer._readyState = ReadyState.CLOSING;
+    setTimeout(() => {
+      this.closed({ code, reason });
+      this.peer.closed({ code, reason });
+    }, 0);
+  }
+
+  terminate(): void {
+    this.close(1006, "");
+  }
+
+  /** @internal Marks both ends as open, dispatching `open` events */
+  open() {
+    setTimeout(() => {
+      if (this._readyState !== ReadyState.CONNECTING) {
+        return;
+      }
+      this._readyState = ReadyState.OPEN;
+      this.peer._readyState = ReadyState.OPEN;
+      this.onopen?.();
+      this.peer.onopen?.();
+    }, 0);
+  }
+
+  private closed(event: PushWebSocketCloseEvent) {
+    if (this._readyState === ReadyState.CLOSED) {
+      return;
+    }
+    this._readyState = ReadyState.CLOSED;
+    this.onclose?.(event);
+  }
+}
+
+/**
+ * An in-process transport for running the PushManager against a fake autopush server without opening a network port.
+ *
+ * Pass {@link webSocketFactory} as the `webSocketFactory` option and handle the server end of each connection in
+ * {@link onconnection}.
+ */
+export class LoopbackTransport {
+  /** Called with the server end of every new connection */
+  onconnection: ((socket: LoopbackSocket) => void) | null = null;
+
+  readonly webSocketFactory: WebSocketFactory = (url) => {
+    const { client, server } = LoopbackSocket.pair(url);
+    if (!this.onconnection) {
+      throw new Error("No loopback server is listening");
+    }
+    this.onconnection(server);
+    client.open();
+    return client;
+  };
+}
@@ -1,3 +1,4 @@
+import { HelloRejectedError, WebPushUnsupportedError } from "../../errors";
 import { NamespacedLogger } from "../../logger";
 import { AutoConnectServerMessage, ServerHello } from "../message";
 import { MessageMediator } from "../message-mediator";
@@ -18,14 +19,27 @@ export class HelloHandler implements MessageHandler<ServerHello> {
   async handle(message: ServerHello): Promise<void> {
     this.logger.debug("Hello received", message);
 
-    await this.mediator.pushManager.completeHello(message.uaid);
+    if (message.status !== 200) {
+      this.logger.warn("Hello rejected", message);
+      this.mediator.pushManager.helloFailed(new HelloRejectedError(message.status));
+      return;
+    }
+    if (message.use_webpush === false) {
+      this.logger.error("Server does not support webpush", message);
+      this.mediator.pushManager.helloFailed(new WebPushUnsupportedError());
+      return;
+    }
 
-    const currentUaid = this.mediator.pushManager.uaid;
-    if (currentUaid && currentUaid !== message.uaid) {
-      // We've been assigned a new UAID. Clear out all subscriptions.
-      // and re-register
-      await this.mediator.subscriptionHandler.reInitAllSubscriptions(this.mediator);
+    const subscriptionHandler = this.mediator.subscriptionHandler;
+    const previousUaid = this.mediator.pushManager.uaid;
+    if (previousUaid !== message.uaid && subscriptionHandler.channelIDs.length > 0) {
+      // Our subscriptions are not known to the server without a uaid, nor under a new one it assigned, so re-register
+      // them. They are marked before the new uaid is stored, so re-registering resumes after the next hello should it
+      // be interrupted
+      await subscriptionHandler.markAllForReInit();
     }
+    await this.mediator.pushManager.completeHello(message.uaid);
+    this.mediator.resumeOutbound();
 
     const pingSender = this.mediator.getSender(PingSender);
     if (!pingSender) {
@@ -33,6 +47,12 @@ export class HelloHandler implements MessageHandler<ServerHello> {
     } else {
       pingSender.justPinged();
     }
+    this.mediator.startKeepalive();
+
+    this.mediator.pushManager.helloHandled();
+
+    // The server answers re-registrations over this connection, so the hello must be handled first
+    await subscriptionHandler.reInitAllSubscriptions(this.mediator);
 
     this.logger.debug("Hello Handled", message);
   }
@@ -1,3 +1,4 @@
+import { OperationRejectedError } from "../../errors";
 import { EventManager } from "../../event-manager";
 import { NamespacedLogger } from "../../logger";
 import {
@@ -5,7 +6,7 @@ import {
   GenericPushSubscription,
   PushSubscriptionEvents,
 } from "../../push-subscription";
-import { Uuid } from "../../string-manipulation";
+import { newUuid, Uuid } from "../../string-manipulation";
 import { AutoConnectServerMessage, ClientUnregisterCodes, ServerRegister } from "../message";
 import { MessageMediator } from "../message-mediator";
 import { RegisterSender } from "../senders/register-sender";
@@ -13,80 +14,92 @@ import { UnregisterSender } from "../senders/unregister-sender";
 
 import { MessageHandler } from "./message-handler";
 
+/** Server errors are retried after this delay, until the operation times out */
+const SERVER_ERROR_RETRY_MS = 5_000;
+
 export class RegisterHandler implements MessageHandler<ServerRegister> {
-  private readonly registeringQueue: Map<
-    Uuid,
-    { options: PushSubscriptionOptions; eventManager?: EventManager<PushSubscriptionEvents> }
-  > = new Map();
-  private readonly eventManager: EventManager<{
-    registered: (subscription: GenericPushSubscription, channelID: Uuid) => void;
-  }>;
   constructor(
     private readonly mediator: MessageMediator,
     private readonly logger: NamespacedLogger<"RegisterHandler">,
-  ) {
-    this.eventManager = new EventManager(logger.extend("EventManager"));
-  }
+  ) {}
   handlesMessage(message: AutoConnectServerMessage): boolean {
     return message.messageType === "register";
   }
 
   /**
-   * Informs the RegisterHandler that a registration is expected for a given channelID and provides the registration's options for when it arrives.
-   * @param channelID The channelID to expect
-   * @param options The options to use when registering
+   * Registers a new channel with the server
+   * @param options The options of the subscription to create
+   * @param eventManager The event manager to hand to the subscription, when re-registering an existing one
+   * @returns Resolves with the subscription once the server has confirmed it
+   * @throws {OperationTimeoutError} If the server does not answer in time
+   * @throws {OperationRejectedError} If the server refuses the registration
+   * @throws {OperationInterruptedError} If the connection is lost before the server answers
    */
-  expectRegister(
-    channelID: Uuid,
+  async register(
     options: PushSubscriptionOptions,
     eventManager?: EventManager<PushSubscriptionEvents>,
-  ) {
-    this.logger.debug("Expecting register", { channelID, options });
-    this.registeringQueue.set(channelID, { options, eventManager });
-
-    // If we don't get a registration in 60 seconds, clean up the queue
-    setTimeout(() => {
-      this.registeringQueue.delete(channelID);
-    }, 60_000);
+  ): Promise<GenericPushSubscription> {
+    const channelID = newUuid();
+    const registered = this.mediator.pendingOperations.add("register", channelID, {
+      options,
+      eventManager,
+    });
+    void this.send(channelID);
+    return await registered;
   }
 
   async handle(message: ServerRegister): Promise<void> {
     this.logger.debug("Received received", message);
 
+    const pending = this.mediator.pendingOperations;
     switch (message.status) {
       case 200:
         break;
       case 409: {
+        // The channelID is already in use, retry under a new one
         this.logger.error("Conflict on register. Retrying", message);
-        await this.retryRegister(message.channelID, 0);
+        const channelID = newUuid();
+        pending.move("register", message.channelID, channelID);
+        await this.send(channelID);
         return;
       }
       case 500: {
-        // FIXME: what's an appropriate retry strategy here?
-        this.logger.error("Server error on register, retrying in 60 seconds", message);
-        // FIXME: do we want to await the retry?
-        void this.retryRegister(message.channelID, 60_000);
+        this.logger.error(
+          `Server error on register, retrying in ${SERVER_ERROR_RETRY_MS / 1000} seconds`,
+          message,
+        );
+        this.mediator.pendingOperations.retry(
+          "register",
+          message.channelID,
+          SERVER_ERROR_RETRY_MS,
+          () => void this.send(message.channelID),
+        );
         return;
       }
       default: {
         this.logger.warn("Unknown register status", message);
+        pending.reject(
+          "register",
+          message.channelID,
+          new OperationRejectedError("register", message.channelID, message.status),
+        );
         return;
       }
     }
 
-    const expected = this.registeringQueue.get(message.channelID);
+    const expected = pending.get("register", message.channelID);
     if (!expected) {
       this.logger.error("No options found for channelID, unregistering", message);
       // Clean up the registration we can't complete
-      await this.mediator.send(UnregisterSender, {
-        channelID: message.channelID,
-        code: ClientUnregisterCodes.USER_UNSUBSCRIBED, // FIXME: what code should we use here?
-      });
+      await this.mediator
+        .send(UnregisterSender, {
+          channelID: message.channelID,
+          code: ClientUnregisterCodes.USER_UNSUBSCRIBED, // FIXME: what code should we use here?
+        })
+        .catch((e) => this.logger.error("Failed to unregister unexpected channel", e));
       return;
     }
     const { options, eventManager } = expected;
-    this.logger.debug("Removing expected registration from queue", message.channelID);
-    this.registeringQueue.delete(message.channelID);
 
     const subscription = await this.mediator.subscriptionHandler.addSubscription(
       message.channelID,
@@ -94,43 +107,27 @@ export class RegisterHandler implements MessageHandler<ServerRegister> {
       options,
       eventManager,
     );
-
-    // Notify any listeners that the registration has been completed
-    this.eventManager.dispatchEvent("registered", subscription, message.channelID);
+    pending.resolve("register", message.channelID, subscription);
 
     this.logger.debug("Registered handled", message);
   }
 
-  async awaitRegister(applicationServerKey: string): Promise<GenericPushSubscription> {
-    return new Promise((resolve) => {
-      const listener = this.eventManager.addEventListener("registered", (subscription) => {
-        if (subscription.options.applicationServerKey === applicationServerKey) {
-          this.eventManager.removeEventListener("registered", listener);
-          resolve(subscription);
-        }
-      });
-    });
-  }
-
-  private async retryRegister(channelID: Uuid, timeoutMs: number) {
-    const fromQueue = this.registeringQueue.get(channelID);
-    if (!fromQueue) {
-      this.logger.error("No options found for channelID, cannot retry", channelID);
+  /**
+   * Sends the register request of a pending registration
+   */
+  private async send(channelID: Uuid) {
+    const pending = this.mediator.pendingOperations;
+    const expected = pending.get("register", channelID);
+    if (!expected) {
+      this.logger.error("No options found for channelID, cannot send register", channelID);
       return;
     }
-    this.logger.debug("Retrying register", channelID, fromQueue);
-    const send = () =>
-      this.mediator.send(RegisterSender, {
-        options: fromQueue.options,
-        eventManager: fromQueue.eventManager,
-      });
-    return timeoutMs <= 0
-      ? await send()
-      : new Promise<void>((resolve) =>
-          setTimeout(async () => {
-            await send();
-            resolve();
-          }, timeoutMs),
-        );
+    try {
+      await this.mediator.send(RegisterSender, { channelID, options: expected.options });
+      pending.sent("register", channelID);
+    } catch (e) {
+      this.logger.error("Failed to send register", channelID, e);
+      pending.reject("register", channelID, e instanceof Error ? e : new Error(String(e)));
+    }
   }
 }
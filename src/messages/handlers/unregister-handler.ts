@@ -1,39 +1,41 @@
-import { EventManager } from "../../event-manager";
+import { OperationRejectedError } from "../../errors";
 import { NamespacedLogger } from "../../logger";
 import { Uuid } from "../../string-manipulation";
-import {
-  AutoConnectServerMessage,
-  ClientUnregisterCode,
-  ClientUnregisterCodes,
-  ServerUnregister,
-} from "../message";
+import { AutoConnectServerMessage, ClientUnregisterCode, ServerUnregister } from "../message";
 import { MessageMediator } from "../message-mediator";
 import { UnregisterSender } from "../senders/unregister-sender";
 
 import { MessageHandler } from "./message-handler";
 
+/** Server errors are retried after this delay, until the operation times out */
+const SERVER_ERROR_RETRY_MS = 5_000;
+
 export class UnregisterHandler implements MessageHandler<ServerUnregister> {
-  private readonly unregisteringQueue: Map<Uuid, ClientUnregisterCode> = new Map();
-  private readonly eventManager: EventManager<{ unregistered: (channelID: Uuid) => void }>;
   constructor(
     private readonly mediator: MessageMediator,
     private readonly logger: NamespacedLogger<"UnregisterHandler">,
-  ) {
-    this.eventManager = new EventManager(logger.extend("EventManager"));
-  }
+  ) {}
 
   handlesMessage(message: AutoConnectServerMessage): boolean {
     return message.messageType === "unregister";
   }
 
-  expectUnregister(channelID: Uuid, code: ClientUnregisterCode) {
-    this.logger.debug("Expecting unregister", { channelID, code });
-    this.unregisteringQueue.set(channelID, code);
-
-    // If we don't get a registration in 60 seconds, clean up the queue
-    setTimeout(() => {
-      this.unregisteringQueue.delete(channelID);
-    }, 60_000);
+  /**
+   * Unregisters a channel from the server. Unregistering a channel which is already being unregistered waits for that
+   * request instead
+   * @returns Resolves once the server has confirmed and the subscription is removed
+   * @throws {OperationTimeoutError} If the server does not answer in time
+   * @throws {OperationRejectedError} If the server refuses to unregister
+   * @throws {OperationInterruptedError} If the connection is lost before the server answers
+   */
+  async unregister(channelID: Uuid, code: ClientUnregisterCode): Promise<void> {
+    const pending = this.mediator.pendingOperations;
+    const isPending = pending.get("unregister", channelID) != null;
+    const unregistered = pending.add("unregister", channelID, { code });
+    if (!isPending) {
+      void this.send(channelID);
+    }
+    await unregistered;
   }
 
   async handle(message: ServerUnregister): Promise<void> {
@@ -45,43 +47,50 @@ export class UnregisterHandler implements MessageHandler<ServerUnregister> {
       case 200:
         break;
       case 500: {
-        // TODO: Implement a backoff strategy
-        this.logger.error("Server error on unregister, retrying in 60 seconds", message);
-
-        const code =
-          this.unregisteringQueue.get(message.channelID) ?? ClientUnregisterCodes.USER_UNSUBSCRIBED;
-        this.unregisteringQueue.delete(message.channelID);
-
-        setTimeout(
-          () =>
-            this.mediator.send(UnregisterSender, {
-              channelID: message.channelID,
-              code,
-            }),
-          60_000,
+        this.logger.error(
+          `Server error on unregister, retrying in ${SERVER_ERROR_RETRY_MS / 1000} seconds`,
+          message,
+        );
+        this.mediator.pendingOperations.retry(
+          "unregister",
+          message.channelID,
+          SERVER_ERROR_RETRY_MS,
+          () => void this.send(message.channelID),
+        );
+        return;
+      }
+      default: {
+        this.logger.warn("Unknown unregister status", message);
+        this.mediator.pendingOperations.reject(
+          "unregister",
+          message.channelID,
+          new OperationRejectedError("unregister", message.channelID, message.status),
         );
         return;
       }
     }
 
-    // Notify listeners that the channel has been unregistered
-    this.eventManager.dispatchEvent("unregistered", message.channelID);
-
     await this.mediator.subscriptionHandler.removeSubscription(message.channelID);
+    this.mediator.pendingOperations.resolve("unregister", message.channelID, undefined);
     this.logger.debug("Unregistered subscription", message);
   }
 
-  async awaitUnregister(channelID: Uuid): Promise<void> {
-    return new Promise((resolve) => {
-      const listener = this.eventManager.addEventListener(
-        "unregistered",
-        (unregisteredChannelId) => {
-          if (unregisteredChannelId === channelID) {
-            this.eventManager.removeEventListener("unregistered", listener);
-            resolve();
-          }
-        },
-      );
-    });
+  /**
+   * Sends the unregister request of a pending unregistration
+   */
+  private async send(channelID: Uuid) {
+    const pending = this.mediator.pendingOperations;
+    const expected = pending.get("unregister", channelID);
+    if (!expected) {
+      this.logger.error("Unregister is no longer pending, cannot send it", channelID);
+      return;
+    }
+    try {
+      await this.mediator.send(UnregisterSender, { channelID, code: expected.code });
+      pending.sent("unregister", channelID);
+    } catch (e) {
+      this.logger.error("Failed to send unregister", channelID, e);
+      pending.reject("unregister", channelID, e instanceof Error ? e : new Error(String(e)));
+    }
   }
 }
@@ -0,0 +1,142 @@
+import { mock, MockProxy } from "jest-mock-extended";
+
+import { TestLogger } from "../../spec/test-logger";
+import { PushManager } from "../push-manager";
+import { SubscriptionHandler } from "../subscription-handler";
+import { PushWebSocket } from "../transport";
+
+import { MessageMediator } from "./message-mediator";
+
+describe("MessageMediator", () => {
+  const options = {
+    ackIntervalMs: 30_000,
+    keepaliveIntervalMs: 2_100_000,
+    keepaliveTimeoutMs: 30_000,
+    invalidMessagePolicy: "drop",
+    outboundQueue: {},
+    operationTimeoutMs: 30_000,
+  } as const;
+  let websocket: MockProxy<PushWebSocket>;
+  let pushManager: MockProxy<PushManager>;
+  let mediator: MessageMediator;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    websocket = mock<PushWebSocket>();
+    pushManager = mock<PushManager>({ websocket });
+    mediator = new MessageMediator(
+      pushManager,
+      mock<SubscriptionHandler>(),
+      options,
+      new TestLogger(),
+    );
+  });
+
+  afterEach(() => {
+    mediator.destroy();
+    jest.useRealTimers();
+  });
+
+  it("rejects keepalive intervals below the minimum ping delay", () => {
+    expect(
+      () =>
+        new MessageMediator(
+          pushManager,
+          mock<SubscriptionHandler>(),
+          { ...options, keepaliveIntervalMs: 60_000 },
+          new TestLogger(),
+        ),
+    ).toThrow("Keepalive interval must be at least 1800000ms");
+  });
+
+  describe("invalid messages", () => {
+    it("drops invalid messages", async () => {
+      await mediator.handle({ messageType: "register", status: 200 });
+
+      expect(mediator.rejectedMessages).toEqual({
+        undecodable: 0,
+        malformedJson: 0,
+        unknownType: 0,
+        invalidFields: 1,
+      });
+      expect(pushManager.forceReconnect).not.toHaveBeenCalled();
+    });
+
+    it("counts frames that are not valid JSON", async () => {
+      await mediator.handleFrame("{");
+
+      expect(mediator.rejectedMessages.malformedJson).toEqual(1);
+    });
+
+    it("counts messages of unknown type", async () => {
+      await mediator.handleFrame('{"messageType":"nope"}');
+
+      expect(mediator.rejectedMessages.unknownType).toEqual(1);
+    });
+
+    it("reconnects on invalid messages when configured to", async () => {
+      mediator.destroy();
+      mediator = new MessageMediator(
+        pushManager,
+        mock<SubscriptionHandler>(),
+        { ...options, invalidMessagePolicy: "reconnect" },
+        new TestLogger(),
+      );
+
+      await mediator.handleFrame("{");
+
+      expect(pushManager.forceReconnect).toHaveBeenCalledWith(
+        expect.stringContaining("Frame is not valid JSON"),
+      );
+    });
+  });
+
+  describe("keepalive", () => {
+    beforeEach(async () => {
+      await mediator.handle({
+        messageType: "hello",
+        uaid: "uaid",
+        status: 200,
+        use_webpush: true,
+      } as never);
+    });
+
+    it("sends a ping once the interval elapses", async () => {
+      await jest.advanceTimersByTimeAsync(options.keepaliveIntervalMs);
+
+      expect(websocket.send).toHaveBeenCalledWith(JSON.stringify({ messageType: "ping" }));
+    });
+
+    it("does not ping before the interval elapses", async () => {
+      await jest.advanceTimersByTimeAsync(options.keepaliveIntervalMs - 1);
+
+      expect(websocket.send).not.toHaveBeenCalled();
+    });
+
+    it("forces a reconnect when the server does not answer the ping", async () => {
+      await jest.advanceTimersByTimeAsync(options.keepaliveIntervalMs);
+      await jest.advanceTimersByTimeAsync(options.keepaliveTimeoutMs);
+
+      expect(pushManager.forceReconnect).toHaveBeenCalledWith("Keepalive timeout");
+    });
+
+    it("schedules the next ping when the server answers", async () => {
+      await jest.advanceTimersByTimeAsync(options.keepaliveIntervalMs);
+      await mediator.handle({ messageType: "ping" });
+      await jest.advanceTimersByTimeAsync(options.keepaliveTimeoutMs);
+
+      expect(pushManager.forceReconnect).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(options.keepaliveIntervalMs);
+
+      expect(websocket.send).toHaveBeenCalledTimes(2);
+    });
+
+    it("stops pinging when keepalive is stopped", async () => {
+      mediator.stopKeepalive();
+      await jest.advanceTimersByTimeAsync(options.keepaliveIntervalMs * 2);
+
+      expect(websocket.send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import type { Constructor } from "type-fest";
 
+import { InvalidMessageError } from "../errors";
 import { Logger, NamespacedLogger } from "../logger";
 import { PushManager } from "../push-manager";
 import { SubscriptionHandler } from "../subscription-handler";
@@ -12,12 +13,21 @@ import { PingHandler } from "./handlers/ping-handler";
 import { RegisterHandler } from "./handlers/register-handler";
 import { UnregisterHandler } from "./handlers/unregister-handler";
 import { AutoConnectClientMessage, AutoConnectServerMessage, ClientMessageAck } from "./message";
+import {
+  decodeFrame,
+  InvalidMessagePolicy,
+  InvalidMessageReason,
+  parseFrame,
+  validateServerMessage,
+} from "./message-validation";
+import { OutboundQueue, OutboundQueueOptions } from "./outbound-queue";
+import { PendingOperations } from "./pending-operations";
 import { AckSender } from "./senders/ack-sender";
 import { BroadcastSubscribeSender } from "./senders/broadcast-subscribe-sender";
 import { HelloSender } from "./senders/hello-sender";
 import { MessageSender, UnknownDeps } from "./senders/message-sender";
 import { NackSender } from "./senders/nack-sender";
-import { PingSender } from "./senders/ping-sender";
+import { MIN_PING_DELAY_MS, PingSender } from "./senders/ping-sender";
 import { RegisterSender } from "./senders/register-sender";
 import { UnregisterSender } from "./senders/unregister-sender";
 
@@ -26,40 +36,108 @@ export class MessageMediator {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- TODO: get rid of this any
   private senders: MessageSender<AutoConnectClientMessage, any>[];
   private ackInterval: NodeJS.Timeout | null = null;
+  private keepaliveTimeout: NodeJS.Timeout | null = null;
+  private pingDeadline: NodeJS.Timeout | null = null;
   private readonly ackQueue: ClientMessageAck[] = [];
+  private readonly _rejectedMessages: Record<InvalidMessageReason, number> = {
+    undecodable: 0,
+    malformedJson: 0,
+    unknownType: 0,
+    invalidFields: 0,
+  };
   private ackSender: AckSender;
+  private readonly outbound: OutboundQueue;
+  /** Register and unregister requests awaiting the server's answer */
+  readonly pendingOperations: PendingOperations;
   constructor(
     readonly pushManager: PushManager,
     readonly subscriptionHandler: SubscriptionHandler,
-    options: { ackIntervalMs: number },
+    private readonly options: {
+      ackIntervalMs: number;
+      keepaliveIntervalMs: number;
+      keepaliveTimeoutMs: number;
+      invalidMessagePolicy: InvalidMessagePolicy;
+      outboundQueue: Partial<OutboundQueueOptions>;
+      operationTimeoutMs: number;
+    },
     private readonly logger: Logger,
   ) {
+    if (options.keepaliveIntervalMs < MIN_PING_DELAY_MS) {
+      throw new Error(
+        `Keepalive interval must be at least ${MIN_PING_DELAY_MS}ms, got ${options.keepaliveIntervalMs}ms`,
+      );
+    }
     this.handlers = [
       new HelloHandler(this, new NamespacedLogger(logger, "HelloHandler")),
       new RegisterHandler(this, new NamespacedLogger(logger, "RegisterHandler")),
       new UnregisterHandler(this, new NamespacedLogger(logger, "UnregisterHandler")),
       new BroadcastHandler(new NamespacedLogger(logger, "BroadcastHandler")),
       new NotificationHandler(this, new NamespacedLogger(logger, "NotificationHandler")),
-      new PingHandler(new NamespacedLogger(logger, "PingHandler")),
+      new PingHandler(this, new NamespacedLogger(logger, "PingHandler")),
     ];
     this.senders = [
       new HelloSender(new NamespacedLogger(logger, "HelloSender")),
-      new RegisterSender(this, new NamespacedLogger(logger, "RegisterSender")),
-      new UnregisterSender(this, new NamespacedLogger(logger, "UnregisterSender")),
+      new RegisterSender(new NamespacedLogger(logger, "RegisterSender")),
+      new UnregisterSender(new NamespacedLogger(logger, "UnregisterSender")),
       new BroadcastSubscribeSender(),
       new NackSender(),
       new PingSender(new NamespacedLogger(logger, "PingSender")),
     ];
     // Ack is separate because acks are grouped to reduce server load
     this.ackSender = new AckSender(new NamespacedLogger(logger, "AckSender"));
+    this.outbound = new OutboundQueue(
+      options.outboundQueue,
+      new NamespacedLogger(logger, "OutboundQueue"),
+    );
+    this.pendingOperations = new PendingOperations(
+      options.operationTimeoutMs,
+      new NamespacedLogger(logger, "PendingOperations"),
+    );
 
-    this.ackInterval = setInterval(() => this.sendAck(), options.ackIntervalMs);
+    this.ackInterval = setInterval(() => void this.flushAcks(), options.ackIntervalMs);
   }
 
   destroy() {
     if (this.ackInterval) {
       clearInterval(this.ackInterval);
     }
+    this.stopKeepalive();
+    const destroyed = new Error("PushManager has been destroyed");
+    this.outbound.close(destroyed);
+    this.pendingOperations.rejectAll(destroyed);
+  }
+
+  /**
+   * Schedules the next keepalive ping. Any previously scheduled ping is replaced.
+   */
+  startKeepalive() {
+    this.stopKeepalive();
+    this.keepaliveTimeout = setTimeout(
+      () => this.sendKeepalive(),
+      this.options.keepaliveIntervalMs,
+    );
+  }
+
+  stopKeepalive() {
+    if (this.keepaliveTimeout) {
+      clearTimeout(this.keepaliveTimeout);
+      this.keepaliveTimeout = null;
+    }
+    if (this.pingDeadline) {
+      clearTimeout(this.pingDeadline);
+      this.pingDeadline = null;
+    }
+  }
+
+  /**
+   * Informs the mediator that the server answered a ping, proving the connection is alive
+   */
+  pingReceived() {
+    if (!this.pingDeadline) {
+      // Not in response to a keepalive
+      return;
+    }
+    this.startKeepalive();
   }
 
   /**
@@ -83,40 +161,110 @@ export class MessageMediator {
     return this.handlers.find((handler) => handler instanceof type) as T | null;
   }
 
-  async handle(message: AutoConnectServerMessage): Promise<void> {
-    const handler = this.handlers.find((h) => h.handlesMessage(message));
+  /** The number of messages rejected since creation, by reason */
+  get rejectedMessages(): Readonly<Record<InvalidMessageReason, number>> {
+    return { ...this._rejectedMessages };
+  }
+
+  /**
+   * Decodes and parses a websocket frame, then handles the message it contains
+   * @param data The frame data, as delivered by the websocket
+   */
+  async handleFrame(data: unknown): Promise<void> {
+    let message: unknown;
+    try {
+      message = parseFrame(await decodeFrame(data));
+    } catch (e) {
+      if (e instanceof InvalidMessageError) {
+        this.rejectMessage(e, data);
+        return;
+      }
+      throw e;
+    }
+    await this.handle(message);
+  }
+
+  /**
+   * Validates a parsed server message and passes it to its handler. Invalid messages are counted and dealt with
+   * according to the `invalidMessagePolicy`
+   */
+  async handle(message: unknown): Promise<void> {
+    let validated: AutoConnectServerMessage;
+    try {
+      validated = validateServerMessage(message);
+    } catch (e) {
+      if (e instanceof InvalidMessageError) {
+        this.rejectMessage(e, message);
+        return;
+      }
+      throw e;
+    }
+
+    const handler = this.handlers.find((h) => h.handlesMessage(validated));
     if (!handler) {
-      this.logger.error(`No handler found for ${message.messageType}`);
+      this.logger.error(`No handler found for ${validated.messageType}`);
       return;
     }
 
-    await handler.handle(message);
+    await handler.handle(validated);
   }
 
   /**
-   * Sends a message along the currently active websocket connection
+   * Sends a message along the currently active websocket connection. Hello and ping messages belong to the current
+   * connection and are sent right away, other messages wait in the outbound queue until a connection has completed its
+   * hello
    * @param type The type of message to send
    * @param deps The dependencies to build the requested message
    *
-   * @throws Error if no sender is found for the given type
+   * @throws Error if no sender is found for the given type, or if a hello or ping is sent without a connection
+   * @throws {MessageExpiredError} If a queued message could not be sent in time
    */
   async send<T extends MessageSender<AutoConnectClientMessage, TDeps>, TDeps extends UnknownDeps>(
     type: Constructor<T>,
     deps: TDeps,
   ): Promise<void> {
-    if (!this.pushManager.websocket) {
-      throw new Error("No websocket connection");
-    }
-
     const sender = this.getSender<T>(type);
     if (!sender) {
       throw new Error(`No sender found for ${type.name}`);
     }
 
+    if (sender instanceof HelloSender || sender instanceof PingSender) {
+      const websocket = this.pushManager.websocket;
+      if (!websocket) {
+        throw new Error("No websocket connection");
+      }
+      const json = JSON.stringify(await sender.buildMessage(deps));
+      this.logger.debug("Sending message", json);
+      websocket.send(json);
+      return;
+    }
+
     const message = await sender.buildMessage(deps);
     const json = JSON.stringify(message);
     this.logger.debug("Sending message", json);
-    this.pushManager.websocket.send(json);
+    // Only the latest message for a channel matters, e.g. a retried register
+    const key =
+      "channelID" in message && typeof message.channelID === "string" ? message.channelID : null;
+    await this.outbound.send(message.messageType, json, key);
+  }
+
+  /**
+   * Starts sending queued messages along the current connection, once its hello has completed
+   */
+  resumeOutbound() {
+    const websocket = this.pushManager.websocket;
+    if (websocket) {
+      this.outbound.resume(websocket);
+    }
+  }
+
+  /**
+   * Informs the mediator that the connection closed. Messages are held in the outbound queue until the next connection
+   * completes its hello, and operations awaiting an answer on the closed connection are interrupted
+   */
+  connectionClosed() {
+    this.outbound.pause();
+    this.pendingOperations.interrupt();
   }
 
   ack(ack: ClientMessageAck) {
@@ -124,21 +272,55 @@ export class MessageMediator {
     this.ackQueue.push(ack);
   }
 
-  private async sendAck() {
+  private rejectMessage(error: InvalidMessageError, message: unknown) {
+    this._rejectedMessages[error.reason]++;
+    this.logger.warn("Rejected invalid message", error.message, message);
+    if (this.options.invalidMessagePolicy === "reconnect") {
+      this.pushManager.forceReconnect(`Invalid message: ${error.message}`);
+    }
+  }
+
+  private async sendKeepalive() {
+    this.keepaliveTimeout = null;
+    try {
+      await this.send(PingSender, {});
+    } catch (e) {
+      this.logger.error("Failed to send keepalive ping", e);
+      this.startKeepalive();
+      return;
+    }
+
+    this.pingDeadline = setTimeout(() => {
+      this.pingDeadline = null;
+      this.logger.warn(
+        `No ping response within ${this.options.keepaliveTimeoutMs}ms, connection is presumed dead`,
+      );
+      this.pushManager.forceReconnect("Keepalive timeout");
+    }, this.options.keepaliveTimeoutMs);
+  }
+
+  /**
+   * Sends all queued acks immediately rather than waiting for the next ack interval. Acks are held until a connection
+   * has completed its hello, and dropped if they cannot be sent, in which case the server redelivers the notifications
+   */
+  async flushAcks() {
     if (this.ackQueue.length === 0) {
       this.logger.debug("No acks to send");
       return;
     }
 
-    if (!this.pushManager.websocket) {
-      this.logger.error("No websocket connection to send acks");
+    if (!this.outbound.flowing) {
+      this.logger.debug("No open connection to send acks, keeping them queued");
       return;
     }
 
     const updates = this.ackQueue.splice(0, this.ackQueue.length);
 
     const message = await this.ackSender.buildMessage({ updates });
-    this.pushManager.websocket.send(JSON.stringify(message));
-    this.logger.debug("Sent acks", message);
+    // Not awaited, a backpressured websocket must not hold up closing the connection
+    this.outbound.send(message.messageType, JSON.stringify(message), null).then(
+      () => this.logger.debug("Sent acks", message),
+      (e) => this.logger.warn("Failed to send acks", e),
+    );
   }
 }
@@ -0,0 +1,111 @@
+import { InvalidMessageError } from "../errors";
+
+import { decodeFrame, parseFrame, validateServerMessage } from "./message-validation";
+
+describe("decodeFrame", () => {
+  const frame = '{"messageType":"ping"}';
+
+  it("passes text frames through", async () => {
+    await expect(decodeFrame(frame)).resolves.toEqual(frame);
+  });
+
+  it("decodes ArrayBuffers", async () => {
+    const buffer = new TextEncoder().encode(frame).buffer;
+    await expect(decodeFrame(buffer)).resolves.toEqual(frame);
+  });
+
+  it("decodes Buffers", async () => {
+    await expect(decodeFrame(Buffer.from(frame))).resolves.toEqual(frame);
+  });
+
+  it("decodes views into a larger buffer", async () => {
+    const bytes = new TextEncoder().encode("xx" + frame + "xx");
+    await expect(decodeFrame(bytes.subarray(2, bytes.length - 2))).resolves.toEqual(frame);
+  });
+
+  it("decodes Blobs", async () => {
+    await expect(decodeFrame(new Blob([frame]))).resolves.toEqual(frame);
+  });
+
+  it("rejects other data", async () => {
+    await expect(decodeFrame(42)).rejects.toMatchObject({ reason: "undecodable" });
+  });
+});
+
+describe("parseFrame", () => {
+  it("parses JSON", () => {
+    expect(parseFrame('{"messageType":"ping"}')).toEqual({ messageType: "ping" });
+  });
+
+  it("rejects malformed JSON", () => {
+    expect(() => parseFrame("{")).toThrow(InvalidMessageError);
+    expect(() => parseFrame("{")).toThrow(expect.objectContaining({ reason: "malformedJson" }));
+  });
+});
+
+describe("validateServerMessage", () => {
+  const notification = {
+    messageType: "notification",
+    channelID: "f2ca74ee-d688-4cb2-8ae1-9deb4805be29",
+    version: "version",
+    ttl: 60,
+    data: "data",
+    headers: { encoding: "aes128gcm" },
+  };
+
+  it.each([
+    { messageType: "hello", uaid: "uaid", status: 200, use_webpush: true },
+    { messageType: "hello", uaid: "uaid", status: 200 },
+    { messageType: "register", channelID: "id", status: 200, pushEndpoint: "https://example.com" },
+    { messageType: "unregister", channelID: "id", status: 200 },
+    { messageType: "broadcast" },
+    { messageType: "ping" },
+    notification,
+    { ...notification, data: null, headers: null },
+    { ...notification, data: undefined, headers: undefined },
+  ])("accepts %j", (message) => {
+    expect(validateServerMessage(message)).toBe(message);
+  });
+
+  it("allows unknown fields", () => {
+    const message = { messageType: "ping", extra: true };
+    expect(validateServerMessage(message)).toBe(message);
+  });
+
+  it.each([
+    null,
+    "ping",
+    [{ messageType: "ping" }],
+    {},
+    { messageType: "nope" },
+    { messageType: 1 },
+  ])("rejects %j as an unknown type", (message) => {
+    expect(() => validateServerMessage(message)).toThrow(
+      expect.objectContaining({ reason: "unknownType" }),
+    );
+  });
+
+  it("rejects missing fields", () => {
+    expect(() => validateServerMessage({ ...notification, version: undefined })).toThrow(
+      'notification message field "version" must be a string, got nothing',
+    );
+  });
+
+  it("rejects fields of the wrong type", () => {
+    expect(() =>
+      validateServerMessage({ messageType: "unregister", channelID: "id", status: "200" }),
+    ).toThrow('unregister message field "status" must be a number, got a string');
+  });
+
+  it("rejects null where it is not allowed", () => {
+    expect(() => validateServerMessage({ ...notification, channelID: null })).toThrow(
+      expect.objectContaining({ reason: "invalidFields" }),
+    );
+  });
+
+  it("rejects headers that are not strings", () => {
+    expect(() => validateServerMessage({ ...notification, headers: { ttl: 60 } })).toThrow(
+      'notification message field "headers" must be an object of strings or null, got an object',
+    );
+  });
+});
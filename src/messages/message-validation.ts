@@ -0,0 +1,164 @@
+import { InvalidMessageError } from "../errors";
+
+import { AutoConnectServerMessage } from "./message";
+
+/**
+ * - `undecodable`: the frame is neither text nor binary data
+ * - `malformedJson`: the frame is not valid JSON
+ * - `unknownType`: the message has a missing or unsupported `messageType`
+ * - `invalidFields`: a field the message type requires is missing or of the wrong type
+ */
+export type InvalidMessageReason =
+  | "undecodable"
+  | "malformedJson"
+  | "unknownType"
+  | "invalidFields";
+
+/**
+ * - `drop`: log and ignore the message
+ * - `reconnect`: drop the connection, as a server sending invalid messages may be in a bad state
+ */
+export type InvalidMessagePolicy = "drop" | "reconnect";
+
+type FieldType = "string" | "number" | "boolean" | "stringRecord";
+
+type FieldSchema = {
+  readonly type: FieldType;
+  /** Whether the field may be absent */
+  readonly optional?: boolean;
+  /** Whether the field may be null */
+  readonly nullable?: boolean;
+};
+
+type MessageSchema = Readonly<Record<string, FieldSchema>>;
+
+const messageSchemas: Readonly<Record<AutoConnectServerMessage["messageType"], MessageSchema>> =
+  Object.freeze({
+    hello: {
+      uaid: { type: "string" },
+      status: { type: "number" },
+      use_webpush: { type: "boolean", optional: true },
+    },
+    register: {
+      channelID: { type: "string" },
+      status: { type: "number" },
+      pushEndpoint: { type: "string" },
+    },
+    unregister: {
+      channelID: { type: "string" },
+      status: { type: "number" },
+    },
+    broadcast: {},
+    notification: {
+      channelID: { type: "string" },
+      version: { type: "string" },
+      ttl: { type: "number" },
+      data: { type: "string", optional: true, nullable: true },
+      headers: { type: "stringRecord", optional: true, nullable: true },
+    },
+    ping: {},
+  });
+
+/**
+ * Decodes a websocket frame to text. Browsers deliver binary frames as a `Blob` or `ArrayBuffer` depending on the
+ * websocket's `binaryType`, Node delivers them as a `Buffer`
+ * @throws {InvalidMessageError} If the frame is not text or binary data
+ */
+export async function decodeFrame(data: unknown): Promise<string> {
+  if (typeof data === "string") {
+    return data;
+  }
+  if (typeof Blob !== "undefined" && data instanceof Blob) {
+    return await data.text();
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return new TextDecoder().decode(data);
+  }
+  throw new InvalidMessageError("undecodable", `Unexpected frame data type ${typeof data}`);
+}
+
+/**
+ * @throws {InvalidMessageError} If the frame is not valid JSON
+ */
+export function parseFrame(frame: string): unknown {
+  try {
+    return JSON.parse(frame);
+  } catch (e) {
+    throw new InvalidMessageError(
+      "malformedJson",
+      `Frame is not valid JSON: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+}
+
+/**
+ * Checks that a parsed message has every field its `messageType` requires, with the expected types. Unknown fields are
+ * allowed, since the server may add fields over time
+ * @throws {InvalidMessageError} If the message is not a valid server message
+ */
+export function validateServerMessage(message: unknown): AutoConnectServerMessage {
+  if (!isObject(message)) {
+    throw new InvalidMessageError("unknownType", "Message is not an object");
+  }
+  const messageType = message.messageType;
+  if (
+    typeof messageType !== "string" ||
+    !Object.prototype.hasOwnProperty.call(messageSchemas, messageType)
+  ) {
+    throw new InvalidMessageError(
+      "unknownType",
+      `Unknown message type ${JSON.stringify(messageType)}`,
+    );
+  }
+
+  const schema = messageSchemas[messageType as AutoConnectServerMessage["messageType"]];
+  for (const [field, fieldSchema] of Object.entries(schema)) {
+    const value = message[field];
+    if (value === undefined && fieldSchema.optional) {
+      continue;
+    }
+    if (value === null && fieldSchema.nullable) {
+      continue;
+    }
+    if (!hasType(value, fieldSchema.type)) {
+      throw new InvalidMessageError(
+        "invalidFields",
+        `${messageType} message field "${field}" must be ${describeType(fieldSchema)}, got ${describeValue(value)}`,
+      );
+    }
+  }
+  return message as AutoConnectServerMessage;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasType(value: unknown, type: FieldType) {
+  switch (type) {
+    case "string":
+    case "number":
+    case "boolean":
+      return typeof value === type;
+    case "stringRecord":
+      return isObject(value) && Object.values(value).every((v) => typeof v === "string");
+  }
+}
+
+function describeType({ type, nullable }: FieldSchema) {
+  const description = type === "stringRecord" ? "an object of strings" : `a ${type}`;
+  return nullable ? `${description} or null` : description;
+}
+
+function describeValue(value: unknown) {
+  if (value === undefined) {
+    return "nothing";
+  }
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  return typeof value === "object" ? "an object" : `a ${typeof value}`;
+}
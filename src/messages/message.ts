@@ -12,7 +12,8 @@ export type ServerHello = AutoConnectServerMessage &
   StatusMessage & {
     readonly messageType: "hello";
     readonly uaid: string;
-    readonly useWebPush: boolean;
+    /** Whether the server operates in webpush mode. Absent if the server does not say */
+    readonly use_webpush?: boolean;
     // TODO: There should be a `broadcasts` hashMap here, but I'm not sure of its contents
   };
 
@@ -75,8 +76,8 @@ export type ClientRegister = AutoConnectClientMessage & {
   messageType: "register";
   /** The channel Id to register */
   channelID: Uuid;
-  /** VAPID public key. This is currently required by this library, but optional in the spec*/
-  key: string;
+  /** VAPID public key. Omitted for keyless subscriptions */
+  key?: string;
 };
 
 export const ClientUnregisterCodes = Object.freeze({
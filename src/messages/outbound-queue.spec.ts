@@ -0,0 +1,142 @@
+import { mock, MockProxy } from "jest-mock-extended";
+
+import { TestLogger } from "../../spec/test-logger";
+import { MessageExpiredError } from "../errors";
+import { PushWebSocket } from "../transport";
+
+import { OutboundQueue } from "./outbound-queue";
+
+describe("OutboundQueue", () => {
+  let websocket: MockProxy<PushWebSocket>;
+  let bufferedAmount: number;
+  let queue: OutboundQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    bufferedAmount = 0;
+    websocket = mock<PushWebSocket>();
+    Object.defineProperty(websocket, "bufferedAmount", { get: () => bufferedAmount });
+    queue = new OutboundQueue(
+      { expireAfterMs: 1_000, highWaterMarkBytes: 100 },
+      new TestLogger().setNamespace("OutboundQueue"),
+    );
+  });
+
+  afterEach(() => {
+    queue.close(new Error("Test over"));
+    jest.useRealTimers();
+  });
+
+  it("sends right away while resumed", async () => {
+    queue.resume(websocket);
+
+    await queue.send("register", "message", "channel");
+
+    expect(websocket.send).toHaveBeenCalledWith("message");
+    expect(queue.size).toEqual(0);
+  });
+
+  it("queues while paused", () => {
+    queue.send("register", "message", "channel").catch(() => {});
+
+    expect(queue.size).toEqual(1);
+  });
+
+  it("sends queued messages in order once resumed", async () => {
+    const sent = [queue.send("register", "first", "a"), queue.send("register", "second", "b")];
+
+    queue.resume(websocket);
+
+    await Promise.all(sent);
+    expect(websocket.send.mock.calls).toEqual([["first"], ["second"]]);
+  });
+
+  it("replaces queued messages with the same key", async () => {
+    const first = queue.send("register", "first", "channel");
+    const second = queue.send("unregister", "second", "channel");
+
+    queue.resume(websocket);
+
+    await Promise.all([first, second]);
+    expect(websocket.send.mock.calls).toEqual([["second"]]);
+  });
+
+  it("does not replace messages without a key", async () => {
+    const sent = [queue.send("nack", "first", null), queue.send("nack", "second", null)];
+
+    queue.resume(websocket);
+
+    await Promise.all(sent);
+    expect(websocket.send).toHaveBeenCalledTimes(2);
+  });
+
+  it("queues again once paused", () => {
+    queue.resume(websocket);
+    queue.pause();
+
+    queue.send("register", "message", "channel").catch(() => {});
+
+    expect(websocket.send).not.toHaveBeenCalled();
+  });
+
+  it("expires messages which are not sent in time", async () => {
+    const sent = queue.send("register", "message", "channel");
+    const assertion = expect(sent).rejects.toThrow(MessageExpiredError);
+
+    await jest.advanceTimersByTimeAsync(1_000);
+
+    await assertion;
+    expect(queue.size).toEqual(0);
+  });
+
+  it("restarts the expiry when a message is replaced", async () => {
+    queue.send("register", "first", "channel").catch(() => {});
+    await jest.advanceTimersByTimeAsync(600);
+    const second = queue.send("register", "second", "channel");
+    await jest.advanceTimersByTimeAsync(600);
+
+    queue.resume(websocket);
+
+    await expect(second).resolves.toBeUndefined();
+  });
+
+  it("waits for a backpressured websocket to drain", async () => {
+    bufferedAmount = 101;
+    queue.resume(websocket);
+
+    const sent = queue.send("register", "message", "channel");
+    await jest.advanceTimersByTimeAsync(100);
+    expect(websocket.send).not.toHaveBeenCalled();
+
+    bufferedAmount = 0;
+    await jest.advanceTimersByTimeAsync(100);
+
+    await sent;
+    expect(websocket.send).toHaveBeenCalledWith("message");
+  });
+
+  it("keeps a message queued if sending throws", () => {
+    websocket.send.mockImplementationOnce(() => {
+      throw new Error("Socket closing");
+    });
+    queue.resume(websocket);
+
+    queue.send("register", "message", "channel").catch(() => {});
+
+    expect(queue.size).toEqual(1);
+  });
+
+  it("rejects queued messages when closed", async () => {
+    const sent = queue.send("register", "message", "channel");
+
+    queue.close(new Error("Destroyed"));
+
+    await expect(sent).rejects.toThrow("Destroyed");
+  });
+
+  it("rejects messages sent after closing", async () => {
+    queue.close(new Error("Destroyed"));
+
+    await expect(queue.send("register", "message", "channel")).rejects.toThrow("Destroyed");
+  });
+});
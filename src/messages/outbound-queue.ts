@@ -0,0 +1,178 @@
+import { MessageExpiredError } from "../errors";
+import { NamespacedLogger } from "../logger";
+import { PushWebSocket } from "../transport";
+
+export type OutboundQueueOptions = {
+  /**
+   * How long a message may wait to be sent before it is dropped and its sender rejected with a
+   * {@link MessageExpiredError}. Defaults to 60 seconds (60000)
+   */
+  expireAfterMs: number;
+  /** Sending pauses while the websocket has more than this many bytes buffered. Defaults to 1 MiB (1048576) */
+  highWaterMarkBytes: number;
+};
+
+const defaultOutboundQueueOptions: OutboundQueueOptions = Object.freeze({
+  expireAfterMs: 60_000, // 60 seconds
+  highWaterMarkBytes: 1_048_576, // 1 MiB
+});
+
+/** The WebSocket API has no drain event, so a backpressured websocket is polled until it drains */
+const DRAIN_POLL_MS = 50;
+
+type QueuedMessage = {
+  readonly key: string | null;
+  messageType: string;
+  data: string;
+  readonly waiters: { resolve: () => void; reject: (reason: Error) => void }[];
+  expireTimeout?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Holds client messages until they can be sent: while there is no connection, until the hello of the next connection
+ * completes, and while the websocket is backpressured. Messages are sent in the order they were queued, except that a
+ * message replaces any queued message with the same key.
+ */
+export class OutboundQueue {
+  private readonly options: OutboundQueueOptions;
+  private readonly queue: QueuedMessage[] = [];
+  private websocket: PushWebSocket | null = null;
+  private drainTimeout: ReturnType<typeof setTimeout> | null = null;
+  private closedReason: Error | null = null;
+  constructor(
+    options: Partial<OutboundQueueOptions>,
+    private readonly logger: NamespacedLogger<"OutboundQueue">,
+  ) {
+    this.options = { ...defaultOutboundQueueOptions, ...options };
+  }
+
+  /** The number of messages waiting to be sent */
+  get size() {
+    return this.queue.length;
+  }
+
+  /** Whether a connection has completed its hello, so that messages are sent rather than held */
+  get flowing() {
+    return this.websocket != null;
+  }
+
+  /**
+   * Sends a message right away if the queue is flowing, otherwise queues it
+   * @param messageType The type of the message, for logging and errors
+   * @param data The serialized message
+   * @param key Identifies messages which replace each other while queued, or null if the message is never replaced
+   * @returns Resolves once the message is handed to the websocket
+   * @throws {MessageExpiredError} If the message could not be sent within `expireAfterMs`
+   */
+  send(messageType: string, data: string, key: string | null): Promise<void> {
+    if (this.closedReason) {
+      return Promise.reject(this.closedReason);
+    }
+    if (this.queue.length === 0 && this.trySend(data)) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const existing = key == null ? undefined : this.queue.find((entry) => entry.key === key);
+      if (existing) {
+        this.logger.debug("Replacing queued message", { key, messageType });
+        clearTimeout(existing.expireTimeout);
+        existing.messageType = messageType;
+        existing.data = data;
+        existing.waiters.push({ resolve, reject });
+        this.scheduleExpiry(existing);
+        return;
+      }
+
+      this.logger.debug("Queuing message", { key, messageType });
+      const entry: QueuedMessage = { key, messageType, data, waiters: [{ resolve, reject }] };
+      this.scheduleExpiry(entry);
+      this.queue.push(entry);
+      // Connected but backpressured
+      this.scheduleDrain();
+    });
+  }
+
+  /**
+   * Starts sending queued messages, and any sent from now on, along the websocket
+   */
+  resume(websocket: PushWebSocket) {
+    this.websocket = websocket;
+    this.flush();
+  }
+
+  /**
+   * Queues every message until resumed, for instance because the connection closed
+   */
+  pause() {
+    this.websocket = null;
+    if (this.drainTimeout) {
+      clearTimeout(this.drainTimeout);
+      this.drainTimeout = null;
+    }
+  }
+
+  /**
+   * Rejects every queued message, and any sent from now on
+   */
+  close(reason: Error) {
+    this.pause();
+    this.closedReason = reason;
+    for (const entry of this.queue.splice(0, this.queue.length)) {
+      clearTimeout(entry.expireTimeout);
+      entry.waiters.forEach(({ reject }) => reject(reason));
+    }
+  }
+
+  private flush() {
+    this.drainTimeout = null;
+    while (this.queue.length > 0) {
+      const entry = this.queue[0];
+      if (!this.trySend(entry.data)) {
+        this.scheduleDrain();
+        return;
+      }
+      this.queue.shift();
+      clearTimeout(entry.expireTimeout);
+      entry.waiters.forEach(({ resolve }) => resolve());
+    }
+  }
+
+  private scheduleDrain() {
+    if (this.websocket && !this.drainTimeout) {
+      this.drainTimeout = setTimeout(() => this.flush(), DRAIN_POLL_MS);
+    }
+  }
+
+  /**
+   * @returns Whether the message was sent
+   */
+  private trySend(data: string) {
+    const websocket = this.websocket;
+    if (!websocket || websocket.bufferedAmount > this.options.highWaterMarkBytes) {
+      return false;
+    }
+    try {
+      websocket.send(data);
+      return true;
+    } catch (e) {
+      this.logger.warn("Failed to send message, keeping it queued", e);
+      return false;
+    }
+  }
+
+  private scheduleExpiry(entry: QueuedMessage) {
+    entry.expireTimeout = setTimeout(() => {
+      const index = this.queue.indexOf(entry);
+      if (index !== -1) {
+        this.queue.splice(index, 1);
+      }
+      this.logger.warn("Dropping message which could not be sent in time", {
+        key: entry.key,
+        messageType: entry.messageType,
+      });
+      const error = new MessageExpiredError(entry.messageType, this.options.expireAfterMs);
+      entry.waiters.forEach(({ reject }) => reject(error));
+    }, this.options.expireAfterMs);
+  }
+}
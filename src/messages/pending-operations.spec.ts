@@ -0,0 +1,133 @@
+import { TestLogger } from "../../spec/test-logger";
+import { OperationInterruptedError, OperationTimeoutError } from "../errors";
+import { newUuid } from "../string-manipulation";
+
+import { ClientUnregisterCodes } from "./message";
+import { PendingOperations } from "./pending-operations";
+
+describe("PendingOperations", () => {
+  const code = ClientUnregisterCodes.USER_UNSUBSCRIBED;
+  let pending: PendingOperations;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    pending = new PendingOperations(1_000, new TestLogger().setNamespace("PendingOperations"));
+  });
+
+  afterEach(() => {
+    pending.rejectAll(new Error("Test over"));
+    jest.useRealTimers();
+  });
+
+  it("resolves with the result", async () => {
+    const channelID = newUuid();
+    const promise = pending.add("unregister", channelID, { code });
+
+    pending.resolve("unregister", channelID, undefined);
+
+    await expect(promise).resolves.toBeUndefined();
+    expect(pending.get("unregister", channelID)).toBeUndefined();
+  });
+
+  it("returns the pending promise for the same channel", () => {
+    const channelID = newUuid();
+    const first = pending.add("unregister", channelID, { code });
+    first.catch(() => {});
+
+    const second = pending.add("unregister", channelID, { code });
+
+    expect(second).toBe(first);
+  });
+
+  it("times out once sent", async () => {
+    const channelID = newUuid();
+    const promise = pending.add("unregister", channelID, { code });
+    pending.sent("unregister", channelID);
+
+    jest.advanceTimersByTime(1_000);
+
+    await expect(promise).rejects.toThrow(OperationTimeoutError);
+    expect(pending.get("unregister", channelID)).toBeUndefined();
+  });
+
+  it("does not time out before being sent", () => {
+    const channelID = newUuid();
+    pending.add("unregister", channelID, { code }).catch(() => {});
+
+    jest.advanceTimersByTime(5_000);
+
+    expect(pending.get("unregister", channelID)).toEqual({ code });
+  });
+
+  it("does not extend the timeout when resent", async () => {
+    const channelID = newUuid();
+    const promise = pending.add("unregister", channelID, { code });
+    pending.sent("unregister", channelID);
+    jest.advanceTimersByTime(500);
+
+    pending.sent("unregister", channelID);
+    jest.advanceTimersByTime(500);
+
+    await expect(promise).rejects.toThrow(OperationTimeoutError);
+  });
+
+  it("keeps its callers when moved", async () => {
+    const from = newUuid();
+    const to = newUuid();
+    const promise = pending.add("unregister", from, { code });
+
+    pending.move("unregister", from, to);
+    pending.resolve("unregister", to, undefined);
+
+    await expect(promise).resolves.toBeUndefined();
+    expect(pending.get("unregister", from)).toBeUndefined();
+  });
+
+  it("retries after the delay", () => {
+    const channelID = newUuid();
+    pending.add("unregister", channelID, { code }).catch(() => {});
+    const send = jest.fn();
+
+    pending.retry("unregister", channelID, 500, send);
+    jest.advanceTimersByTime(500);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops a scheduled retry once the operation settles", async () => {
+    const channelID = newUuid();
+    const promise = pending.add("unregister", channelID, { code });
+    pending.sent("unregister", channelID);
+    const send = jest.fn();
+
+    pending.retry("unregister", channelID, 5_000, send);
+    jest.advanceTimersByTime(5_000);
+
+    await expect(promise).rejects.toThrow(OperationTimeoutError);
+    expect(send).not.toHaveBeenCalled();
+    expect(jest.getTimerCount()).toEqual(0);
+  });
+
+  it("interrupts sent operations only", async () => {
+    const sentID = newUuid();
+    const queuedID = newUuid();
+    const sent = pending.add("unregister", sentID, { code });
+    pending.add("unregister", queuedID, { code }).catch(() => {});
+    pending.sent("unregister", sentID);
+
+    pending.interrupt();
+
+    await expect(sent).rejects.toThrow(OperationInterruptedError);
+    expect(pending.get("unregister", queuedID)).toEqual({ code });
+  });
+
+  it("rejects everything", async () => {
+    const channelID = newUuid();
+    const promise = pending.add("unregister", channelID, { code });
+    const error = new Error("Destroyed");
+
+    pending.rejectAll(error);
+
+    await expect(promise).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,191 @@
+import { OperationInterruptedError, OperationTimeoutError } from "../errors";
+import { EventManager } from "../event-manager";
+import { NamespacedLogger } from "../logger";
+import {
+  GenericPushSubscription,
+  PushSubscriptionEvents,
+  PushSubscriptionOptions,
+} from "../push-subscription";
+import { Uuid } from "../string-manipulation";
+
+import { ClientUnregisterCode } from "./message";
+
+/**
+ * The context each kind of operation needs to handle the server's answer, and the result it resolves with
+ */
+type Operations = {
+  register: {
+    context: {
+      readonly options: PushSubscriptionOptions;
+      readonly eventManager?: EventManager<PushSubscriptionEvents>;
+    };
+    result: GenericPushSubscription;
+  };
+  unregister: {
+    context: { readonly code: ClientUnregisterCode };
+    result: void;
+  };
+};
+
+export type OperationType = keyof Operations;
+
+type PendingOperation<K extends OperationType> = {
+  readonly context: Operations[K]["context"];
+  readonly promise: Promise<Operations[K]["result"]>;
+  readonly resolve: (result: Operations[K]["result"]) => void;
+  readonly reject: (reason: Error) => void;
+  /** Set once the request is handed to the websocket, from when the server's answer is awaited */
+  timeout: ReturnType<typeof setTimeout> | null;
+  /** Set while a retry of the request is scheduled */
+  retryTimeout: ReturnType<typeof setTimeout> | null;
+};
+
+/**
+ * Tracks register and unregister requests awaiting the server's answer, keyed by channelID. Once a request has been
+ * sent, the server has `timeoutMs` to answer before the operation is rejected with an {@link OperationTimeoutError}.
+ */
+export class PendingOperations {
+  private readonly operations: { [K in OperationType]: Map<Uuid, PendingOperation<K>> } = {
+    register: new Map(),
+    unregister: new Map(),
+  };
+  constructor(
+    private readonly timeoutMs: number,
+    private readonly logger: NamespacedLogger<"PendingOperations">,
+  ) {}
+
+  /**
+   * Starts tracking an operation. If the same operation is already pending for the channel, that one is returned
+   * instead
+   * @returns Settles with the server's answer
+   */
+  add<K extends OperationType>(
+    type: K,
+    channelID: Uuid,
+    context: Operations[K]["context"],
+  ): Promise<Operations[K]["result"]> {
+    const existing = this.map(type).get(channelID);
+    if (existing) {
+      return existing.promise;
+    }
+
+    let resolve!: (result: Operations[K]["result"]) => void;
+    let reject!: (reason: Error) => void;
+    const promise = new Promise<Operations[K]["result"]>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    this.map(type).set(channelID, {
+      context,
+      promise,
+      resolve,
+      reject,
+      timeout: null,
+      retryTimeout: null,
+    });
+    this.logger.debug(`Expecting ${type}`, channelID);
+    return promise;
+  }
+
+  /**
+   * Gets the context of a pending operation
+   */
+  get<K extends OperationType>(type: K, channelID: Uuid): Operations[K]["context"] | undefined {
+    return this.map(type).get(channelID)?.context;
+  }
+
+  /**
+   * Starts waiting for the server to answer, once the request has been sent. Retries of the same request do not extend
+   * the wait
+   */
+  sent(type: OperationType, channelID: Uuid) {
+    const operation = this.map(type).get(channelID);
+    if (!operation || operation.timeout) {
+      return;
+    }
+    operation.timeout = setTimeout(() => {
+      this.logger.warn(`No ${type} response within ${this.timeoutMs}ms`, channelID);
+      this.reject(type, channelID, new OperationTimeoutError(type, channelID, this.timeoutMs));
+    }, this.timeoutMs);
+  }
+
+  /**
+   * Schedules the request of a pending operation to be sent again. The retry is dropped should the operation settle
+   * first
+   * @param send Sends the request again
+   */
+  retry(type: OperationType, channelID: Uuid, delayMs: number, send: () => void) {
+    const operation = this.map(type).get(channelID);
+    if (!operation || operation.retryTimeout) {
+      return;
+    }
+    operation.retryTimeout = setTimeout(() => {
+      operation.retryTimeout = null;
+      send();
+    }, delayMs);
+  }
+
+  /**
+   * Moves a pending operation to another channel, for instance to retry under a new channelID, keeping its callers
+   */
+  move(type: OperationType, from: Uuid, to: Uuid) {
+    const operation = this.take(type, from);
+    if (operation) {
+      this.map(type).set(to, operation);
+    }
+  }
+
+  resolve<K extends OperationType>(type: K, channelID: Uuid, result: Operations[K]["result"]) {
+    this.take(type, channelID)?.resolve(result);
+  }
+
+  reject(type: OperationType, channelID: Uuid, reason: Error) {
+    this.take(type, channelID)?.reject(reason);
+  }
+
+  /**
+   * Rejects every operation whose request was sent on a connection that has since closed. The server answers on the
+   * connection a request was sent on, so those answers will never arrive. Operations still waiting to be sent are kept.
+   */
+  interrupt() {
+    for (const type of Object.keys(this.operations) as OperationType[]) {
+      for (const [channelID, operation] of this.map(type)) {
+        if (operation.timeout) {
+          this.reject(type, channelID, new OperationInterruptedError(type, channelID));
+        }
+      }
+    }
+  }
+
+  /**
+   * Rejects every pending operation
+   */
+  rejectAll(reason: Error) {
+    for (const type of Object.keys(this.operations) as OperationType[]) {
+      for (const channelID of [...this.map(type).keys()]) {
+        this.reject(type, channelID, reason);
+      }
+    }
+  }
+
+  private take(type: OperationType, channelID: Uuid) {
+    const operation = this.map(type).get(channelID);
+    if (!operation) {
+      return undefined;
+    }
+    this.map(type).delete(channelID);
+    if (operation.timeout) {
+      clearTimeout(operation.timeout);
+      operation.timeout = null;
+    }
+    if (operation.retryTimeout) {
+      clearTimeout(operation.retryTimeout);
+      operation.retryTimeout = null;
+    }
+    return operation;
+  }
+
+  private map<K extends OperationType>(type: K) {
+    return this.operations[type] as Map<Uuid, PendingOperation<K>>;
+  }
+}
@@ -3,7 +3,7 @@ import { ClientPing } from "../message";
 
 import { MessageSender, UnknownDeps } from "./message-sender";
 
-const MIN_PING_DELAY_MS = 1_800_000; // 30 minutes
+export const MIN_PING_DELAY_MS = 1_800_000; // 30 minutes
 
 export class PingSender implements MessageSender<ClientPing, UnknownDeps> {
   private lastPingTime: number | null = null;
@@ -23,6 +23,7 @@ export class PingSender implements MessageSender<ClientPing, UnknownDeps> {
         }ms`,
       );
     }
+    this.justPinged();
     return {
       messageType: "ping",
     };
@@ -0,0 +1,121 @@
+import { TestLogger } from "../spec/test-logger";
+
+import { InvalidMessageError } from "./errors";
+import { NamespacedLogger } from "./logger";
+import { LoopbackSocket, LoopbackTransport } from "./loopback-transport";
+import { unregisterFromServer } from "./migration";
+import { fromUtf8ToBuffer, newUuid } from "./string-manipulation";
+
+describe("unregisterFromServer", () => {
+  const url = "loopback://previous";
+  const uaid = "5f0774ac-09a3-45d9-91e4-f4aaebaeec72";
+  const channelIDs = [newUuid(), newUuid()];
+  let transport: LoopbackTransport;
+  let testLogger: TestLogger;
+  let logger: NamespacedLogger<"Migration">;
+  let received: unknown[];
+
+  beforeEach(() => {
+    transport = new LoopbackTransport();
+    testLogger = new TestLogger();
+    logger = new NamespacedLogger(testLogger, "Migration");
+    received = [];
+  });
+
+  function serve(answer: (socket: LoopbackSocket, message: { messageType: string }) => void) {
+    transport.onconnection = (socket) => {
+      socket.onmessage = ({ data }) => {
+        const message = JSON.parse(data as string);
+        received.push(message);
+        answer(socket, message);
+      };
+    };
+  }
+
+  it("unregisters every channel of the uaid", async () => {
+    serve((socket, message) => {
+      if (message.messageType === "hello") {
+        socket.send(JSON.stringify({ messageType: "hello", uaid, status: 200, use_webpush: true }));
+      } else {
+        socket.send(JSON.stringify({ ...message, status: 200 }));
+      }
+    });
+
+    await unregisterFromServer(transport.webSocketFactory, url, uaid, channelIDs, 1000, logger);
+
+    expect(received).toEqual([
+      { messageType: "hello", uaid, channelIDs, use_webpush: true },
+      { messageType: "unregister", channelID: channelIDs[0], code: 200 },
+      { messageType: "unregister", channelID: channelIDs[1], code: 200 },
+    ]);
+  });
+
+  it("ignores invalid frames", async () => {
+    serve((socket, message) => {
+      if (message.messageType === "hello") {
+        socket.send("not json");
+        socket.send(JSON.stringify({ messageType: "hello", uaid, status: 200, use_webpush: true }));
+      } else {
+        socket.send(JSON.stringify({ ...message, status: 200 }));
+      }
+    });
+
+    await unregisterFromServer(transport.webSocketFactory, url, uaid, channelIDs, 1000, logger);
+
+    expect(received).toHaveLength(3);
+    expect(testLogger.mock.warn).toHaveBeenCalledWith(
+      "[Migration] Ignoring invalid message from previous autopush server",
+      url,
+      expect.any(InvalidMessageError),
+    );
+  });
+
+  it("handles binary frames", async () => {
+    serve((socket, message) => {
+      const answer =
+        message.messageType === "hello"
+          ? { messageType: "hello", uaid, status: 200, use_webpush: true }
+          : { ...message, status: 200 };
+      socket.send(fromUtf8ToBuffer(JSON.stringify(answer)) as unknown as string);
+    });
+
+    await unregisterFromServer(transport.webSocketFactory, url, uaid, channelIDs, 1000, logger);
+
+    expect(received).toHaveLength(3);
+    expect(testLogger.mock.warn).not.toHaveBeenCalled();
+  });
+
+  it("gives up when the server rejects the hello", async () => {
+    serve((socket) => {
+      socket.send(JSON.stringify({ messageType: "hello", uaid, status: 401, use_webpush: true }));
+    });
+
+    await unregisterFromServer(transport.webSocketFactory, url, uaid, channelIDs, 1000, logger);
+
+    expect(received).toEqual([{ messageType: "hello", uaid, channelIDs, use_webpush: true }]);
+    expect(testLogger.mock.warn).toHaveBeenCalledWith(
+      "[Migration] Previous autopush server rejected hello",
+      url,
+      401,
+    );
+  });
+
+  it("gives up when the server does not answer", async () => {
+    serve(() => {});
+
+    await unregisterFromServer(transport.webSocketFactory, url, uaid, channelIDs, 10, logger);
+
+    expect(testLogger.mock.warn).toHaveBeenCalledWith(
+      "[Migration] Previous autopush server did not confirm unregistering",
+      url,
+      channelIDs,
+    );
+  });
+
+  it("does not throw when the server cannot be reached", async () => {
+    await expect(
+      unregisterFromServer(transport.webSocketFactory, url, uaid, channelIDs, 10, logger),
+    ).resolves.toBeUndefined();
+    expect(testLogger.mock.warn).toHaveBeenCalled();
+  });
+});
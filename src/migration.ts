@@ -0,0 +1,99 @@
+import { NamespacedLogger } from "./logger";
+import {
+  AutoConnectServerMessage,
+  ClientHello,
+  ClientUnregister,
+  ClientUnregisterCodes,
+  ServerHello,
+  ServerUnregister,
+} from "./messages/message";
+import { decodeFrame, parseFrame, validateServerMessage } from "./messages/message-validation";
+import { Uuid } from "./string-manipulation";
+import { WebSocketFactory } from "./transport";
+
+/**
+ * Unregisters a uaid's channels from the autopush server it was assigned by, so the server stops accepting
+ * notifications for them. Used when moving to another server and when abandoning a uaid. This is best-effort: the
+ * previous server may no longer be reachable, so failures are logged rather than thrown.
+ * @param webSocketFactory Creates the websocket to the previous server
+ * @param url The previous server
+ * @param uaid The uaid the previous server assigned
+ * @param channelIDs The channels to unregister
+ * @param timeoutMs How long to wait for the server to answer before giving up
+ * @param logger
+ */
+export async function unregisterFromServer(
+  webSocketFactory: WebSocketFactory,
+  url: string,
+  uaid: string,
+  channelIDs: Uuid[],
+  timeoutMs: number,
+  logger: NamespacedLogger<"Migration" | "ResetIdentity">,
+): Promise<void> {
+  let websocket;
+  try {
+    websocket = webSocketFactory(url);
+  } catch (e) {
+    logger.warn("Failed to connect to previous autopush server", url, e);
+    return;
+  }
+
+  const pending = new Set(channelIDs);
+  await new Promise<void>((resolve) => {
+    const timeout = setTimeout(() => {
+      logger.warn("Previous autopush server did not confirm unregistering", url, [...pending]);
+      websocket.close(1000, "Migration timed out");
+    }, timeoutMs);
+    const finish = () => {
+      clearTimeout(timeout);
+      websocket.close(1000, "Migration complete");
+    };
+
+    websocket.onopen = () => {
+      const hello: ClientHello = { messageType: "hello", uaid, channelIDs, use_webpush: true };
+      websocket.send(JSON.stringify(hello));
+    };
+    websocket.onmessage = async (event) => {
+      let message: AutoConnectServerMessage;
+      try {
+        message = validateServerMessage(parseFrame(await decodeFrame(event.data)));
+      } catch (e) {
+        logger.warn("Ignoring invalid message from previous autopush server", url, e);
+        return;
+      }
+      if (message.messageType === "hello") {
+        const hello = message as ServerHello;
+        if (hello.status !== 200) {
+          logger.warn("Previous autopush server rejected hello", url, hello.status);
+          finish();
+          return;
+        }
+        if (pending.size === 0) {
+          finish();
+          return;
+        }
+        for (const channelID of pending) {
+          const unregister: ClientUnregister = {
+            messageType: "unregister",
+            channelID,
+            code: ClientUnregisterCodes.USER_UNSUBSCRIBED,
+          };
+          websocket.send(JSON.stringify(unregister));
+        }
+      } else if (message.messageType === "unregister") {
+        pending.delete((message as ServerUnregister).channelID);
+        if (pending.size === 0) {
+          logger.debug("Unregistered from previous autopush server", url);
+          finish();
+        }
+      }
+    };
+    websocket.onerror = (e) => {
+      logger.warn("Error unregistering from previous autopush server", url, e.message ?? e);
+    };
+    websocket.onclose = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+  });
+}
@@ -0,0 +1,109 @@
+import {
+  alwaysOnline,
+  BrowserNetworkMonitor,
+  defaultNetworkMonitor,
+  ProbeNetworkMonitor,
+} from "./network";
+
+describe("ProbeNetworkMonitor", () => {
+  let probe: jest.Mock<Promise<boolean>>;
+  let monitor: ProbeNetworkMonitor;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    probe = jest.fn().mockResolvedValue(true);
+    monitor = new ProbeNetworkMonitor(probe, 1000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("assumes the network is available before probing", () => {
+    expect(monitor.online).toBe(true);
+    expect(probe).not.toHaveBeenCalled();
+  });
+
+  it("probes while a listener is registered", async () => {
+    const remove = monitor.onChange(jest.fn());
+    expect(probe).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(probe).toHaveBeenCalledTimes(3);
+
+    remove();
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(probe).toHaveBeenCalledTimes(3);
+  });
+
+  it("notifies listeners when availability changes", async () => {
+    const listener = jest.fn();
+    monitor.onChange(listener);
+
+    probe.mockResolvedValue(false);
+    await jest.advanceTimersByTimeAsync(1000);
+    await jest.advanceTimersByTimeAsync(1000);
+    probe.mockResolvedValue(true);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(listener.mock.calls).toEqual([[false], [true]]);
+    expect(monitor.online).toBe(true);
+  });
+
+  it("treats a failing probe as offline", async () => {
+    probe.mockRejectedValue(new Error("ENOTFOUND"));
+
+    await monitor.check();
+
+    expect(monitor.online).toBe(false);
+  });
+});
+
+describe("BrowserNetworkMonitor", () => {
+  const events = new EventTarget();
+
+  beforeEach(() => {
+    Object.defineProperty(globalThis, "navigator", {
+      value: { onLine: true },
+      configurable: true,
+    });
+    globalThis.addEventListener = events.addEventListener.bind(events);
+    globalThis.removeEventListener = events.removeEventListener.bind(events);
+  });
+
+  afterEach(() => {
+    delete (globalThis as { navigator?: unknown }).navigator;
+    delete (globalThis as { addEventListener?: unknown }).addEventListener;
+    delete (globalThis as { removeEventListener?: unknown }).removeEventListener;
+  });
+
+  it("follows navigator.onLine", () => {
+    const monitor = new BrowserNetworkMonitor();
+
+    expect(monitor.online).toBe(true);
+    (globalThis.navigator as { onLine: boolean }).onLine = false;
+    expect(monitor.online).toBe(false);
+  });
+
+  it("notifies listeners of online and offline events", () => {
+    const listener = jest.fn();
+    const remove = new BrowserNetworkMonitor().onChange(listener);
+
+    events.dispatchEvent(new Event("offline"));
+    events.dispatchEvent(new Event("online"));
+    remove();
+    events.dispatchEvent(new Event("offline"));
+
+    expect(listener.mock.calls).toEqual([[false], [true]]);
+  });
+
+  it("is the default where supported", () => {
+    expect(defaultNetworkMonitor()).toBeInstanceOf(BrowserNetworkMonitor);
+  });
+});
+
+describe("defaultNetworkMonitor", () => {
+  it("assumes the network is always available without a browser", () => {
+    expect(defaultNetworkMonitor()).toBe(alwaysOnline);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Reports whether the network is available, so reconnect attempts can be suspended while it is not
+ */
+export interface NetworkMonitor {
+  /** Whether the network is currently believed to be available */
+  readonly online: boolean;
+  /**
+   * Calls the listener whenever network availability changes
+   * @returns A function which removes the listener
+   */
+  onChange(listener: (online: boolean) => void): () => void;
+}
+
+/**
+ * Assumes the network is always available. Used where no better signal exists
+ */
+export const alwaysOnline: NetworkMonitor = Object.freeze({
+  online: true,
+  onChange: () => () => {},
+});
+
+/**
+ * Follows the browser's `navigator.onLine` and its `online` and `offline` events
+ */
+export class BrowserNetworkMonitor implements NetworkMonitor {
+  get online() {
+    return globalThis.navigator.onLine;
+  }
+
+  onChange(listener: (online: boolean) => void) {
+    const online = () => listener(true);
+    const offline = () => listener(false);
+    globalThis.addEventListener("online", online);
+    globalThis.addEventListener("offline", offline);
+    return () => {
+      globalThis.removeEventListener("online", online);
+      globalThis.removeEventListener("offline", offline);
+    };
+  }
+
+  static isSupported() {
+    return (
+      typeof globalThis.navigator?.onLine === "boolean" &&
+      typeof globalThis.addEventListener === "function"
+    );
+  }
+}
+
+/**
+ * Determines network availability by periodically running a probe, for environments without a native signal, such as
+ * Node. The network is assumed to be available until the probe reports otherwise, and a probe that throws counts as
+ * offline.
+ *
+ * Probing only runs while a listener is registered.
+ */
+export class ProbeNetworkMonitor implements NetworkMonitor {
+  private _online = true;
+  private readonly listeners: Set<(online: boolean) => void> = new Set();
+  private interval: ReturnType<typeof setInterval> | null = null;
+  /**
+   * @param probe Resolves to whether the network is available, for example by resolving a DNS name
+   * @param intervalMs The interval between probes. Defaults to 5 seconds (5000)
+   */
+  constructor(
+    private readonly probe: () => boolean | Promise<boolean>,
+    private readonly intervalMs = 5_000,
+  ) {}
+
+  get online() {
+    return this._online;
+  }
+
+  onChange(listener: (online: boolean) => void) {
+    this.listeners.add(listener);
+    if (!this.interval) {
+      this.interval = setInterval(() => void this.check(), this.intervalMs);
+      // Probing must not keep the process alive
+      (this.interval as { unref?: () => void }).unref?.();
+      void this.check();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.interval) {
+        clearInterval(this.interval);
+        this.interval = null;
+      }
+    };
+  }
+
+  /**
+   * Runs the probe, notifying listeners if availability changed
+   */
+  async check() {
+    let online: boolean;
+    try {
+      online = await this.probe();
+    } catch {
+      online = false;
+    }
+    if (online === this._online) {
+      return;
+    }
+    this._online = online;
+    for (const listener of this.listeners) {
+      listener(online);
+    }
+  }
+}
+
+/**
+ * Picks the monitor for the current environment: the browser's online status where available, otherwise assuming the
+ * network is always available
+ */
+export function defaultNetworkMonitor(): NetworkMonitor {
+  return BrowserNetworkMonitor.isSupported() ? new BrowserNetworkMonitor() : alwaysOnline;
+}
@@ -0,0 +1,41 @@
+import type { ConnectionOptions } from "tls";
+
+import { ClientOptions, WebSocket as wsWebsocket } from "ws";
+
+import { proxyAgentFor } from "./proxy";
+import type { PushManagerOptions } from "./push-manager";
+import { pinnedServerIdentityCheck, trustedCertificates } from "./tls";
+import { NodeTransportOptions, PushWebSocket, WebSocketFactory } from "./transport";
+
+/**
+ * Creates a websocket factory honoring the Node specific transport options, using the `ws` package. This module pulls
+ * in Node built-ins, so it is only reachable from the `node` entry point and never from browser bundles.
+ */
+export function createNodeWebSocketFactory(
+  options: Partial<NodeTransportOptions>,
+): WebSocketFactory {
+  const { proxy, tls } = options;
+  const tlsOptions: Pick<ConnectionOptions, "ca" | "checkServerIdentity"> = {};
+  if (tls?.ca) {
+    tlsOptions.ca = trustedCertificates(tls.ca);
+  }
+  if (tls?.pins) {
+    tlsOptions.checkServerIdentity = pinnedServerIdentityCheck(tls.pins);
+  }
+  return (url) =>
+    new wsWebsocket(url, {
+      // ws hands these to tls.connect as is, but types checkServerIdentity more narrowly than Node does
+      ...(tlsOptions as ClientOptions),
+      agent: proxy ? proxyAgentFor(url, proxy) : undefined,
+    }) as unknown as PushWebSocket;
+}
+
+/**
+ * Supplies a websocket factory for the `proxy` and `tls` options, unless the caller provided their own factory
+ */
+export function withNodeTransport(options: PushManagerOptions): PushManagerOptions {
+  if (options.webSocketFactory || (!options.proxy && !options.tls)) {
+    return options;
+  }
+  return { ...options, webSocketFactory: createNodeWebSocketFactory(options) };
+}
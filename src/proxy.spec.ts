@@ -0,0 +1,93 @@
+import { HttpConnectProxyAgent, proxyAgentFor, resolveProxyUrl } from "./proxy";
+
+describe("resolveProxyUrl", () => {
+  describe("explicit proxy", () => {
+    it("uses the given url", () => {
+      expect(
+        resolveProxyUrl("wss://push.example.com", { url: "http://proxy.example.com:3128" })?.href,
+      ).toEqual("http://proxy.example.com:3128/");
+    });
+
+    it("bypasses hosts matching noProxy", () => {
+      expect(
+        resolveProxyUrl("wss://push.example.com", {
+          url: "http://proxy.example.com:3128",
+          noProxy: ["example.com"],
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe("environment", () => {
+    it("uses HTTPS_PROXY for secure targets", () => {
+      const env = { HTTPS_PROXY: "http://secure-proxy:1", HTTP_PROXY: "http://proxy:2" };
+
+      expect(resolveProxyUrl("wss://push.example.com", "environment", env)?.host).toEqual(
+        "secure-proxy:1",
+      );
+    });
+
+    it("falls back to HTTP_PROXY for secure targets", () => {
+      const env = { HTTP_PROXY: "http://proxy:2" };
+
+      expect(resolveProxyUrl("wss://push.example.com", "environment", env)?.host).toEqual(
+        "proxy:2",
+      );
+    });
+
+    it("uses HTTP_PROXY for insecure targets", () => {
+      const env = { HTTPS_PROXY: "http://secure-proxy:1", HTTP_PROXY: "http://proxy:2" };
+
+      expect(resolveProxyUrl("ws://push.example.com", "environment", env)?.host).toEqual("proxy:2");
+    });
+
+    it("honors lower case variables", () => {
+      const env = { https_proxy: "http://secure-proxy:1" };
+
+      expect(resolveProxyUrl("wss://push.example.com", "environment", env)?.host).toEqual(
+        "secure-proxy:1",
+      );
+    });
+
+    it("is null when no proxy is configured", () => {
+      expect(resolveProxyUrl("wss://push.example.com", "environment", {})).toBeNull();
+    });
+
+    it.each([
+      ["*"],
+      ["push.example.com"],
+      ["example.com"],
+      [".example.com"],
+      ["*.example.com"],
+      ["other.com, example.com"],
+      ["example.com:443"],
+    ])("bypasses the proxy for NO_PROXY=%s", (noProxy) => {
+      const env = { HTTPS_PROXY: "http://proxy:1", NO_PROXY: noProxy };
+
+      expect(resolveProxyUrl("wss://push.example.com", "environment", env)).toBeNull();
+    });
+
+    it.each([["other.com"], ["ample.com"], ["example.com:8443"]])(
+      "uses the proxy for NO_PROXY=%s",
+      (noProxy) => {
+        const env = { HTTPS_PROXY: "http://proxy:1", NO_PROXY: noProxy };
+
+        expect(resolveProxyUrl("wss://push.example.com", "environment", env)).not.toBeNull();
+      },
+    );
+  });
+});
+
+describe("proxyAgentFor", () => {
+  it("creates a tunneling agent when a proxy applies", () => {
+    expect(proxyAgentFor("wss://push.example.com", { url: "http://proxy:1" })).toBeInstanceOf(
+      HttpConnectProxyAgent,
+    );
+  });
+
+  it("is undefined when the target is connected to directly", () => {
+    expect(
+      proxyAgentFor("wss://push.example.com", { url: "http://proxy:1", noProxy: ["*"] }),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import * as http from "http";
+import * as https from "https";
+import type * as stream from "stream";
+import * as tls from "tls";
+
+/**
+ * - `environment`: honor the `HTTPS_PROXY`, `HTTP_PROXY` and `NO_PROXY` environment variables
+ * - `{ url, noProxy }`: tunnel through the given proxy. Credentials in the url are sent as basic auth. Hosts matching
+ *   `noProxy` connect directly
+ */
+export type ProxyOptions = "environment" | { url: string; noProxy?: string[] };
+
+function isSecure(url: URL) {
+  return url.protocol === "wss:" || url.protocol === "https:";
+}
+
+function defaultPort(url: URL) {
+  return isSecure(url) ? 443 : 80;
+}
+
+/**
+ * Determines which proxy, if any, a connection to the target should be tunneled through
+ * @param target The url being connected to
+ * @param proxy The proxy configuration
+ * @param env The environment to read proxy variables from. Defaults to `process.env`
+ * @returns The proxy url, or null if the target should be connected to directly
+ */
+export function resolveProxyUrl(
+  target: string,
+  proxy: ProxyOptions,
+  env: NodeJS.ProcessEnv = process.env,
+): URL | null {
+  const targetUrl = new URL(target);
+
+  let proxyUrl: string | undefined;
+  let noProxy: string[];
+  if (proxy === "environment") {
+    proxyUrl = isSecure(targetUrl)
+      ? (env.HTTPS_PROXY ?? env.https_proxy ?? env.HTTP_PROXY ?? env.http_proxy)
+      : (env.HTTP_PROXY ?? env.http_proxy);
+    noProxy = (env.NO_PROXY ?? env.no_proxy ?? "").split(",");
+  } else {
+    proxyUrl = proxy.url;
+    noProxy = proxy.noProxy ?? [];
+  }
+
+  if (!proxyUrl || bypassesProxy(targetUrl, noProxy)) {
+    return null;
+  }
+  return new URL(proxyUrl);
+}
+
+/**
+ * Matches the target against `NO_PROXY` style entries: `*`, host names (matching subdomains too, with or without a
+ * leading `.` or `*.`), each optionally followed by `:port`
+ */
+function bypassesProxy(target: URL, noProxy: string[]) {
+  const targetPort = target.port || defaultPort(target).toString();
+  return noProxy
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry !== "")
+    .some((entry) => {
+      if (entry === "*") {
+        return true;
+      }
+      const [host, port] = entry.split(":");
+      if (port && port !== targetPort) {
+        return false;
+      }
+      const bareHost = host.replace(/^\*?\./, "");
+      return target.hostname === bareHost || target.hostname.endsWith(`.${bareHost}`);
+    });
+}
+
+/**
+ * An agent which tunnels connections through an HTTP proxy using the CONNECT method. TLS to the endpoint, if any, is
+ * negotiated through the tunnel.
+ */
+export class HttpConnectProxyAgent extends http.Agent {
+  constructor(
+    private readonly proxyUrl: URL,
+    private readonly secureEndpoint: boolean,
+  ) {
+    super();
+    // Requests verify the agent's protocol matches their own, so mirror the tunneled endpoint's
+    (this as { protocol?: string }).protocol = secureEndpoint ? "https:" : "http:";
+  }
+
+  override createConnection(
+    options: http.ClientRequestArgs & tls.ConnectionOptions,
+    callback?: (err: Error | null, stream: stream.Duplex) => void,
+  ): undefined {
+    const host = options.hostname ?? options.host ?? "localhost";
+    const port = options.port ?? (this.secureEndpoint ? 443 : 80);
+    const authority = `${host}:${port}`;
+
+    const headers: http.OutgoingHttpHeaders = { host: authority };
+    if (this.proxyUrl.username) {
+      const credentials = `${decodeURIComponent(this.proxyUrl.username)}:${decodeURIComponent(
+        this.proxyUrl.password,
+      )}`;
+      headers["proxy-authorization"] = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    }
+
+    const request = (isSecure(this.proxyUrl) ? https : http).request({
+      host: this.proxyUrl.hostname,
+      port: this.proxyUrl.port || defaultPort(this.proxyUrl),
+      method: "CONNECT",
+      path: authority,
+      headers,
+      agent: false,
+    });
+
+    request.once("connect", (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        callback?.(
+          new Error(`Proxy CONNECT failed with ${response.statusCode} ${response.statusMessage}`),
+          socket,
+        );
+        return;
+      }
+
+      if (!this.secureEndpoint) {
+        callback?.(null, socket);
+        return;
+      }
+
+      const tlsSocket = tls.connect({
+        ...options,
+        socket,
+        servername: options.servername ?? host,
+      });
+      callback?.(null, tlsSocket);
+    });
+    request.once("error", (e) => callback?.(e, request.socket as stream.Duplex));
+    request.end();
+
+    return undefined;
+  }
+}
+
+/**
+ * Creates an agent to tunnel a connection to the target through its proxy, if any
+ */
+export function proxyAgentFor(target: string, proxy: ProxyOptions): http.Agent | undefined {
+  const proxyUrl = resolveProxyUrl(target, proxy);
+  if (!proxyUrl) {
+    return undefined;
+  }
+  return new HttpConnectProxyAgent(proxyUrl, isSecure(new URL(target)));
+}
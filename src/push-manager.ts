@@ -1,44 +1,334 @@
-import { WebSocket as wsWebsocket } from "ws";
+import type { Jsonify } from "type-fest";
 
+import {
+  ApplicationServerKey,
+  normalizeApplicationServerKey,
+  validateApplicationServerKey,
+} from "./application-server-key";
+import {
+  BackoffPolicy,
+  ExponentialBackoffOptions,
+  ReconnectContext,
+  toBackoffPolicy,
+} from "./backoff";
+import { CircuitBreaker, CircuitBreakerOptions } from "./circuit-breaker";
+import {
+  classifyCloseCode,
+  CloseClassification,
+  defaultDisconnectPolicy,
+  Disconnect,
+  DisconnectAction,
+  DisconnectPolicy,
+} from "./close-codes";
+import { EndpointPool, FailoverOptions } from "./endpoint-pool";
+import {
+  CertificateError,
+  CircuitOpenError,
+  ConnectTimeoutError,
+  DisconnectedError,
+  HelloRejectedError,
+  HelloTimeoutError,
+  toCertificateError,
+  WebPushUnsupportedError,
+} from "./errors";
+import { EventManager, ListenerId } from "./event-manager";
 import { Logger, NamespacedLogger, TimedLogger } from "./logger";
 import { RegisterHandler } from "./messages/handlers/register-handler";
 import { UnregisterHandler } from "./messages/handlers/unregister-handler";
-import { AutoConnectServerMessage, ClientUnregisterCodes } from "./messages/message";
+import { ClientUnregisterCodes } from "./messages/message";
 import { MessageMediator } from "./messages/message-mediator";
+import { InvalidMessagePolicy, InvalidMessageReason } from "./messages/message-validation";
+import { OutboundQueueOptions } from "./messages/outbound-queue";
 import { HelloSender } from "./messages/senders/hello-sender";
-import { RegisterSender } from "./messages/senders/register-sender";
-import { UnregisterSender } from "./messages/senders/unregister-sender";
+import { unregisterFromServer } from "./migration";
+import { defaultNetworkMonitor, NetworkMonitor } from "./network";
+import type { ProxyOptions } from "./proxy";
 import {
   GenericPushSubscription,
   PublicPushSubscription,
   PushSubscriptionOptions,
+  PushSubscriptionOptionsInit,
 } from "./push-subscription";
+import { SleepDetectionOptions, SleepDetector } from "./sleep-detector";
 import { PublicStorage, Storage } from "./storage";
 import { Uuid } from "./string-manipulation";
 import { SubscriptionHandler } from "./subscription-handler";
+import type { TlsOptions } from "./tls";
+import { createDefaultWebSocketFactory, PushWebSocket, WebSocketFactory } from "./transport";
 
 export interface PublicPushManager {
-  subscribe(options: PushSubscriptionOptions): Promise<PublicPushSubscription>;
-  destroy(): Promise<void>;
+  /** The current state of the connection to the autopush server */
+  readonly state: PushManagerState;
+  /** The autopush server currently in use. When several are configured, this changes on failover */
+  readonly autopushUrl: string;
+  /** The number of invalid messages received from the server since creation, by the reason they were rejected */
+  readonly rejectedMessages: Readonly<Record<InvalidMessageReason, number>>;
+  /**
+   * Subscribes with the given options, or returns the existing subscription for the same application server key.
+   * Concurrent calls for the same key share a single registration. The key may be base64url encoded or given as bytes,
+   * and is rejected with an {@link InvalidApplicationServerKeyError}, before anything is sent, unless it is an
+   * uncompressed P-256 public key. Without a key, the subscription is keyless and identified by its `scope` instead.
+   * Rejects with an {@link OperationTimeoutError} if the server does not answer within `operationTimeoutMs`, an
+   * {@link OperationRejectedError} if the server refuses the registration, or an {@link OperationInterruptedError} if
+   * the connection is lost before the server answers
+   */
+  subscribe(options: PushSubscriptionOptionsInit): Promise<PublicPushSubscription>;
+  /**
+   * Gets the subscription for an application server key, in any form `subscribe` accepts, including one recovered from
+   * storage, or null if there is none
+   */
+  getSubscription(applicationServerKey: ApplicationServerKey): PublicPushSubscription | null;
+  /** Gets the keyless subscription with a scope, including one recovered from storage, or null if there is none */
+  getSubscriptionByScope(scope: string): PublicPushSubscription | null;
+  /** Gets every subscription, including those recovered from storage */
+  getSubscriptions(): PublicPushSubscription[];
+  /**
+   * Opens the connection to the autopush server, resolving once the hello completes. Does nothing if already
+   * connected.
+   */
+  connect(): Promise<void>;
+  /**
+   * Closes the connection to the autopush server without reconnecting. The uaid and subscriptions are kept, so
+   * {@link connect} can resume where this left off.
+   */
+  disconnect(): Promise<void>;
+  /**
+   * Drops the current uaid and starts over with a fresh identity, for example when the device may have been cloned or
+   * its storage leaked. Existing channels are unregistered, then every subscription is re-registered under the new uaid
+   * with freshly generated keys and a `pushsubscriptionchange` event is emitted for each. Resolves once connected under
+   * the new identity.
+   */
+  resetIdentity(): Promise<void>;
+  /**
+   * Closes the connection for good and releases all resources. The manager cannot be used afterwards.
+   */
+  destroy(options?: DestroyOptions): Promise<void>;
+  addEventListener<K extends keyof PushManagerEvents>(
+    type: K,
+    listener: PushManagerEvents[K],
+  ): ListenerId;
+  removeEventListener<K extends keyof PushManagerEvents>(type: K, listenerId: ListenerId): void;
 }
 
-const WebSocket = globalThis.WebSocket || wsWebsocket;
+/**
+ * - `idle`: not connected and not trying to, either before the first `connect`, after `disconnect`, or once
+ *   reconnecting has stopped, for instance because of the disconnect policy or an open circuit without probes
+ * - `connecting`: the websocket is being opened
+ * - `awaitingHello`: the websocket is open and a hello has been sent, but the server has not answered yet
+ * - `connected`: the server answered the hello, notifications can be received
+ * - `reconnecting`: the websocket was closed and a reconnect is scheduled
+ * - `offline`: the websocket was closed while the network is unavailable, a reconnect is attempted once it returns
+ * - `hibernating`: the websocket was closed to save power and is reopened on schedule, or by calling `connect`
+ * - `destroyed`: the manager was destroyed and will not reconnect
+ */
+export type PushManagerState =
+  | "idle"
+  | "connecting"
+  | "awaitingHello"
+  | "connected"
+  | "reconnecting"
+  | "offline"
+  | "hibernating"
+  | "destroyed";
+
+export type PushManagerEvents = {
+  statechange: (state: PushManagerState, previousState: PushManagerState) => void;
+  disconnected: (disconnect: Disconnect) => void;
+  /**
+   * A subscription was re-registered with a new endpoint, for instance after moving to another autopush server. The
+   * new endpoint must be sent to the application server in place of the old one.
+   */
+  pushsubscriptionchange: (
+    newSubscription: Jsonify<PublicPushSubscription>,
+    oldSubscription: Jsonify<PublicPushSubscription>,
+  ) => void;
+  /** A subscription was added, by subscribing or by re-registering an existing subscription with a new endpoint */
+  subscriptionadded: (subscription: PublicPushSubscription) => void;
+  /**
+   * A subscription was removed, by unsubscribing, by wiping storage on destroy, or because it was replaced by a
+   * re-registration
+   */
+  subscriptionremoved: (subscription: PublicPushSubscription) => void;
+  certificateerror: (error: CertificateError) => void;
+  /**
+   * The machine woke from sleep. The connection is re-established right away, but notifications may have been missed
+   * while asleep, so the application should resync its own state.
+   */
+  resumed: (sleptMs: number) => void;
+  /**
+   * Connection attempts kept failing, so reconnecting slows down to a probe every `circuitBreaker.probeIntervalMs`
+   * @param failures The most recent failed attempts, oldest first
+   */
+  circuitopen: (failures: readonly Disconnect[]) => void;
+  /** A connection succeeded after the circuit opened, so reconnecting returns to normal */
+  circuitclose: () => void;
+  /**
+   * The manager stopped reconnecting, either because connection attempts kept failing and the circuit breaker is
+   * configured not to probe, because the server does not support webpush, or because its certificate was rejected.
+   * Call `connect` to try again.
+   * @param failures The most recent failed attempts, oldest first
+   * @param error A {@link CircuitOpenError}, {@link WebPushUnsupportedError} or {@link CertificateError}
+   */
+  fatal: (failures: readonly Disconnect[], error: Error) => void;
+};
+
+export type HibernationOptions = {
+  /** How long to hibernate before connecting to receive the notifications stored meanwhile. Defaults to 15 minutes (900000) */
+  wakeIntervalMs: number;
+  /**
+   * How long the connection must go without messages, after the hello, before hibernating. Autopush delivers the
+   * stored notifications right after the hello. Defaults to 5 seconds (5000)
+   */
+  drainMs: number;
+};
+
+/** Hello statuses with which autopush refuses the uaid, rather than the connection */
+const uaidRejectedStatuses = new Set([401, 403, 404, 409, 410]);
+
+export type DestroyOptions = {
+  /** Send pending acks before closing, so the server does not redeliver those notifications. Defaults to true */
+  flushAcks?: boolean;
+  /**
+   * Unregister every subscription from the server, connecting first if needed, and wait up to `operationTimeoutMs`,
+   * connecting included, for the server to confirm. Defaults to false
+   */
+  unregisterAll?: boolean;
+  /** Delete the uaid and every subscription, including its keys, from storage. Defaults to false */
+  wipeStorage?: boolean;
+};
+
+const defaultHibernationOptions: HibernationOptions = Object.freeze({
+  wakeIntervalMs: 900_000, // 15 minutes
+  drainMs: 5_000, // 5 seconds
+});
 
-type PushManagerOptions = {
-  /** The Url to connect to. Defaults to `wss://push.services.mozilla.com` */
-  autopushUrl?: string;
+export type PushManagerOptions = {
+  /**
+   * The Url to connect to, or an ordered list of Urls to fail over between when the preferred ones are unreachable.
+   * Defaults to `wss://push.services.mozilla.com`
+   */
+  autopushUrl?: string | string[];
+  /**
+   * When to fail over to the next of several `autopushUrl`s. Defaults to failing over after 2 consecutive failed
+   * connection attempts, skipping the failed Url for 5 minutes
+   */
+  failover?: Partial<FailoverOptions>;
+  /**
+   * When the stored uaid belongs to a server that is no longer configured, whether to unregister its subscriptions from
+   * that server before re-registering them with the configured one. With `lazyConnect`, this waits for the first
+   * `connect`. Defaults to false
+   */
+  unregisterOnMigration?: boolean;
   /** The interval between ACK messages. Defaults to 30 seconds (30000) */
   ackIntervalMs?: number;
-  /** A method which is awaited prior to reconnecting, should the websocket be disconnected. Defaults to a constant timeout of 1 second */
-  reconnectDelay?: () => Promise<void>;
+  /**
+   * The policy used to delay reconnect attempts, should the websocket be disconnected. Accepts either options for the
+   * built-in exponential backoff or a custom {@link BackoffPolicy}. Defaults to exponential backoff with full jitter,
+   * starting at 1 second and capped at 5 minutes
+   */
+  backoff?: BackoffPolicy | Partial<ExponentialBackoffOptions>;
+  /**
+   * A method which is awaited prior to reconnecting, in place of the `backoff` delay. Defaults to null
+   * @deprecated Use `backoff` instead
+   */
+  reconnectDelay?: (() => Promise<void>) | null;
+  /** How long to wait for the websocket to open before giving up on the connection. Defaults to 30 seconds (30000) */
+  connectTimeoutMs?: number;
+  /** How long to wait for the server to answer a hello before giving up on the connection. Defaults to 10 seconds (10000) */
+  helloTimeoutMs?: number;
+  /** The interval between keepalive pings. Must be at least 30 minutes. Defaults to 35 minutes (2100000) */
+  keepaliveIntervalMs?: number;
+  /** How long to wait for the server to answer a keepalive ping before reconnecting. Defaults to 30 seconds (30000) */
+  keepaliveTimeoutMs?: number;
+  /**
+   * Decides whether to reconnect, reset the uaid, or stop after the websocket closes, based on the classified close
+   * code. Defaults to stopping on protocol errors and policy violations, resetting the uaid on autopush specific codes,
+   * and reconnecting otherwise
+   */
+  disconnectPolicy?: DisconnectPolicy;
+  /**
+   * What to do with a frame from the server that is not a valid message: `drop` it, or `reconnect` in case the server is
+   * in a bad state. Either way, it is counted in `rejectedMessages`. Defaults to drop
+   */
+  invalidMessagePolicy?: InvalidMessagePolicy;
+  /**
+   * Messages such as subscribe and unsubscribe requests wait in a queue while there is no connection, and are sent once
+   * the next connection completes its hello. Defaults to expiring messages after 60 seconds and pausing while the
+   * websocket has more than 1 MiB buffered
+   */
+  outboundQueue?: Partial<OutboundQueueOptions>;
+  /**
+   * How long the server has to answer a subscribe or unsubscribe request once it has been sent, before the request is
+   * rejected with an {@link OperationTimeoutError}. Defaults to 30 seconds (30000)
+   */
+  operationTimeoutMs?: number;
+  /** When true, `create` only loads the uaid and subscriptions from storage and waits for `connect` to be called. Defaults to false */
+  lazyConnect?: boolean;
+  /**
+   * Creates the websocket for each connection attempt. Use this to pass client options, instrument the socket, or
+   * substitute an in-memory transport. Defaults to the native `WebSocket`, falling back to the `ws` package
+   */
+  webSocketFactory?: WebSocketFactory | null;
+  /**
+   * Tunnels the connection through an HTTP(S) proxy using CONNECT. Either `environment` to honor the `HTTPS_PROXY`,
+   * `HTTP_PROXY` and `NO_PROXY` environment variables, or an explicit proxy url. Only supported in Node, by the
+   * `autopush-manager/node` entry point, and ignored when a `webSocketFactory` is provided. Defaults to no proxy
+   */
+  proxy?: ProxyOptions | null;
+  /**
+   * Extra CA certificates to trust and public key pins to require for the `wss` connection. Only supported in Node, and
+   * ignored when a `webSocketFactory` is provided. Defaults to the system trust store without pinning
+   */
+  tls?: TlsOptions | null;
+  /**
+   * Reports network availability. Reconnect attempts are suspended while the network is unavailable, and made right
+   * away once it returns. Defaults to `navigator.onLine` in browsers, and to assuming the network is always available
+   * elsewhere. In Node, pass a {@link ProbeNetworkMonitor}
+   */
+  network?: NetworkMonitor | null;
+  /**
+   * How to detect the machine waking from sleep, after which the connection is presumed dead and re-established
+   * without backing off. `null` disables detection. Defaults to a watchdog ticking every 10 seconds, detecting ticks 60
+   * seconds late
+   */
+  sleepDetection?: Partial<SleepDetectionOptions> | null;
+  /**
+   * When to stop backing off and only probe the server occasionally, or stop reconnecting altogether, because
+   * connection attempts keep failing. `null` disables the circuit breaker. Defaults to opening after 10 consecutive
+   * failures or 30 minutes of failures, then probing every 10 minutes
+   */
+  circuitBreaker?: Partial<CircuitBreakerOptions> | null;
+  /**
+   * Trades notification latency for power by not holding the connection open. After each hello, the stored
+   * notifications are received and acked, then the connection is closed until the next wake. `null` keeps the
+   * connection open. Defaults to null
+   */
+  hibernation?: Partial<HibernationOptions> | null;
 };
 
 const defaultPushManagerOptions: Required<PushManagerOptions> = Object.freeze({
   autopushUrl: "wss://push.services.mozilla.com",
+  failover: {},
+  unregisterOnMigration: false,
   ackIntervalMs: 30_000, // 30 seconds
-  reconnectDelay: async () => {
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-  },
+  backoff: {},
+  reconnectDelay: null,
+  connectTimeoutMs: 30_000, // 30 seconds
+  helloTimeoutMs: 10_000, // 10 seconds
+  keepaliveIntervalMs: 2_100_000, // 35 minutes
+  keepaliveTimeoutMs: 30_000, // 30 seconds
+  disconnectPolicy: defaultDisconnectPolicy,
+  invalidMessagePolicy: "drop",
+  outboundQueue: {},
+  operationTimeoutMs: 30_000, // 30 seconds
+  lazyConnect: false,
+  webSocketFactory: null,
+  proxy: null,
+  tls: null,
+  network: null,
+  sleepDetection: {},
+  circuitBreaker: {},
+  hibernation: null,
 });
 
 function populateOptions(userOptions: PushManagerOptions): Required<PushManagerOptions> {
@@ -50,17 +340,85 @@ function populateOptions(userOptions: PushManagerOptions): Required<PushManagerO
 
 export class PushManager implements PublicPushManager {
   private _uaid: string | null = null;
-  private _websocket: WebSocket | null = null;
-  private _helloResolve: (() => void) | null = null;
+  private _websocket: PushWebSocket | null = null;
+  private websocketClosed: Promise<void> | null = null;
+  private pendingHello: {
+    promise: Promise<void>;
+    resolve: () => void;
+    reject: (reason: Error) => void;
+  } | null = null;
+  private handshakeTimeout: NodeJS.Timeout | null = null;
+  private _state: PushManagerState = "idle";
   private reconnect = true;
   private wsOpenTime: number | null = null;
+  private helloTime: number | null = null;
+  private reconnectAttempt = 0;
+  private lastCloseCode: number | null = null;
+  private lastError: string | null = null;
+  /** The delay before the next reconnect attempt, cancelled when something else decides when to connect */
+  private reconnectWait: { cancel: () => void } | null = null;
+  /** The server the stored uaid belongs to, when migrating from it was deferred by lazyConnect */
+  private migrateOnConnect: string | null = null;
+  private migration: Promise<void> | null = null;
+  private readonly backoff: BackoffPolicy;
+  private readonly endpoints: EndpointPool;
+  private readonly network: NetworkMonitor;
+  private removeNetworkListener: (() => void) | null = null;
+  private readonly sleepDetector: SleepDetector | null;
+  private reconnectImmediately = false;
+  /** Overrides the disconnect policy for the current connection, which failed in a way the close code does not tell */
+  private connectionError: { action: DisconnectAction; error: Error } | null = null;
+  private readonly circuitBreaker: CircuitBreaker | null;
+  private readonly hibernation: HibernationOptions | null;
+  private hibernateTimeout: NodeJS.Timeout | null = null;
+  private wakeTimeout: NodeJS.Timeout | null = null;
+  private readonly webSocketFactory: WebSocketFactory;
+  private readonly eventManager: EventManager<PushManagerEvents>;
+  /** Registrations awaiting the server's answer, by application server key or scope, shared by concurrent subscribes */
+  private readonly pendingSubscribes: Map<string, Promise<GenericPushSubscription>> = new Map();
   private mediator!: MessageMediator; // This is assigned in the create method
   private subscriptionHandler!: SubscriptionHandler; // This is assigned in the create method
   private constructor(
     private readonly storage: Storage,
     private readonly logger: Logger,
     private readonly options: Required<PushManagerOptions>,
-  ) {}
+  ) {
+    this.backoff = toBackoffPolicy(options.backoff);
+    this.endpoints = new EndpointPool(options.autopushUrl, options.failover);
+    this.network = options.network ?? defaultNetworkMonitor();
+    this.circuitBreaker = options.circuitBreaker
+      ? new CircuitBreaker(options.circuitBreaker)
+      : null;
+    this.hibernation = options.hibernation
+      ? { ...defaultHibernationOptions, ...options.hibernation }
+      : null;
+    this.sleepDetector = options.sleepDetection
+      ? new SleepDetector(options.sleepDetection, (sleptMs) => this.woke(sleptMs))
+      : null;
+    this.webSocketFactory =
+      options.webSocketFactory ?? createDefaultWebSocketFactory(options, logger);
+    this.eventManager = new EventManager(
+      new NamespacedLogger(logger, "PushManager").extend("EventManager"),
+    );
+  }
+
+  get state() {
+    return this._state;
+  }
+
+  private setState(state: PushManagerState) {
+    const previousState = this._state;
+    if (previousState === state) {
+      return;
+    }
+    this._state = state;
+    this.logger.debug(`State changed from ${previousState} to ${state}`);
+    this.eventManager.dispatchEvent("statechange", state, previousState);
+  }
+
+  get autopushUrl() {
+    return this.endpoints.current;
+  }
 
   get uaid() {
     return this._uaid;
@@ -69,60 +427,165 @@ export class PushManager implements PublicPushManager {
   async setUaid(value: string) {
     this._uaid = value;
     await this.storage.write("uaid", value);
+    // A uaid is only known to the server that assigned it
+    await this.storage.write("autopushUrl", this.endpoints.current);
+  }
+
+  private async resetUaid() {
+    this._uaid = null;
+    await this.storage.remove("uaid");
+    await this.storage.remove("autopushUrl");
+  }
+
+  /**
+   * Signals that a subscription was re-registered under a new channel
+   */
+  subscriptionChanged(
+    newSubscription: GenericPushSubscription,
+    oldSubscription: GenericPushSubscription,
+  ) {
+    this.eventManager.dispatchEvent(
+      "pushsubscriptionchange",
+      newSubscription.toJSON(),
+      oldSubscription.toJSON(),
+    );
   }
 
   async completeHello(uaid: string) {
     if (this._uaid !== uaid) {
       await this.setUaid(uaid);
     }
-    setTimeout(() => {
-      this._helloResolve?.();
-    }, 1000);
-    // this._helloResolve?.();
+  }
+
+  /**
+   * Signals that the hello exchange has been fully handled and the connection is ready for use
+   */
+  helloHandled() {
+    this.clearHandshakeTimeout();
+    this.endpoints.recordSuccess();
+    if (this.circuitBreaker?.recordSuccess()) {
+      this.logger.info("Connected after the circuit opened, closing it");
+      this.eventManager.dispatchEvent("circuitclose");
+    }
+    this.helloTime = new Date().getTime();
+    this.setState("connected");
+    this.pendingHello?.resolve();
+    this.pendingHello = null;
+    this.scheduleHibernation();
+  }
+
+  /**
+   * Signals that the server refused the hello. The connection is dropped, then:
+   * - a rejected uaid is forgotten and a new hello sent right away
+   * - a server without webpush support stops reconnecting for good
+   * - any other status reconnects with backoff
+   */
+  helloFailed(error: HelloRejectedError | WebPushUnsupportedError) {
+    let action: DisconnectAction = "reconnect";
+    if (error instanceof WebPushUnsupportedError) {
+      action = "stop";
+    } else if (this._uaid && uaidRejectedStatuses.has(error.status)) {
+      action = "resetUaid";
+      this.reconnectImmediately = true;
+    }
+    this.connectionError = { action, error };
+    this._websocket?.close(1000, "Hello failed");
+  }
+
+  get rejectedMessages() {
+    return this.mediator.rejectedMessages;
   }
 
   get websocket() {
     return this._websocket;
   }
 
-  async subscribe(options: PushSubscriptionOptions): Promise<GenericPushSubscription> {
-    if (!options || !options.applicationServerKey) {
-      throw new Error("Invalid options. Only VAPID authenticated subscriptions are supported");
+  async subscribe(options: PushSubscriptionOptionsInit): Promise<GenericPushSubscription> {
+    if (!options) {
+      throw new Error("Invalid options");
+    }
+    const { userVisibleOnly, applicationServerKey: key, scope } = options;
+    if (key != null && scope != null) {
+      throw new Error(
+        "Invalid options. Subscriptions have either an applicationServerKey or a scope",
+      );
     }
 
-    if (!this.subscriptionHandler || !this._websocket) {
+    if (this._state === "destroyed") {
+      throw new Error("PushManager has been destroyed");
+    }
+    if (!this.subscriptionHandler) {
       throw new Error("class not initialized");
     }
 
-    const existing = this.subscriptionHandler.getByApplicationServerKey(
-      options.applicationServerKey,
-    );
+    let normalized: PushSubscriptionOptions;
+    let existing: GenericPushSubscription | undefined;
+    let identity: string;
+    if (key != null) {
+      const applicationServerKey = await validateApplicationServerKey(key);
+      normalized = { userVisibleOnly, applicationServerKey };
+      existing = this.subscriptionHandler.getByApplicationServerKey(applicationServerKey);
+      identity = applicationServerKey;
+    } else if (scope) {
+      normalized = { userVisibleOnly, applicationServerKey: null, scope };
+      existing = this.subscriptionHandler.getByScope(scope);
+      // base64url has no colons, so keys and scopes cannot collide
+      identity = `scope:${scope}`;
+    } else {
+      throw new Error("Invalid options. Keyless subscriptions must have a scope");
+    }
     if (existing) {
       return existing;
     }
+    const pending = this.pendingSubscribes.get(identity);
+    if (pending !== undefined) {
+      return await pending;
+    }
 
     const handler = this.mediator.getHandler(RegisterHandler);
     if (!handler) {
       throw new Error("RegisterHandler not found, cannot complete registration.");
     }
 
-    const promise = handler.awaitRegister(options.applicationServerKey);
-    await this.mediator.send(RegisterSender, { options });
-    return await promise;
+    const registered = handler.register(normalized);
+    this.pendingSubscribes.set(identity, registered);
+    const settled = () => {
+      this.pendingSubscribes.delete(identity);
+    };
+    registered.then(settled, settled);
+    return await registered;
+  }
+
+  getSubscription(applicationServerKey: ApplicationServerKey): GenericPushSubscription | null {
+    return (
+      this.subscriptionHandler.getByApplicationServerKey(
+        normalizeApplicationServerKey(applicationServerKey),
+      ) ?? null
+    );
+  }
+
+  getSubscriptionByScope(scope: string): GenericPushSubscription | null {
+    return this.subscriptionHandler.getByScope(scope) ?? null;
+  }
+
+  getSubscriptions(): GenericPushSubscription[] {
+    return this.subscriptionHandler.getAll();
   }
 
   async unsubscribe(channelID: Uuid) {
-    if (!this.subscriptionHandler || !this._websocket) {
+    if (this._state === "destroyed") {
+      throw new Error("PushManager has been destroyed");
+    }
+    if (!this.subscriptionHandler) {
       throw new Error("class not initialized");
     }
 
-    const promise = this.mediator.getHandler(UnregisterHandler)?.awaitUnregister(channelID);
-    await this.mediator.send(UnregisterSender, {
-      channelID,
-      code: ClientUnregisterCodes.USER_UNSUBSCRIBED,
-    });
+    const handler = this.mediator.getHandler(UnregisterHandler);
+    if (!handler) {
+      throw new Error("UnregisterHandler not found, cannot complete unregistration.");
+    }
 
-    await promise;
+    await handler.unregister(channelID, ClientUnregisterCodes.USER_UNSUBSCRIBED);
   }
 
   static async create(
@@ -138,75 +601,683 @@ export class PushManager implements PublicPushManager {
       storage,
       (channelID: Uuid) => manager.unsubscribe(channelID),
       new NamespacedLogger(logger, "SubscriptionHandler"),
+      {
+        added: (subscription) =>
+          manager.eventManager.dispatchEvent("subscriptionadded", subscription),
+        removed: (subscription) =>
+          manager.eventManager.dispatchEvent("subscriptionremoved", subscription),
+      },
     );
     const mediator = new MessageMediator(manager, subscriptionHandler, resolvedOptions, logger);
 
     // Assign the circular dependencies
     manager.mediator = mediator;
     manager.subscriptionHandler = subscriptionHandler;
-    await manager.init();
+    try {
+      await manager.init();
+    } catch (e) {
+      await manager.destroy();
+      throw e;
+    }
     return manager;
   }
 
   private async init(): Promise<void> {
     this._uaid = await this.storage.read<string>("uaid");
+    if (this._uaid) {
+      await this.restoreUaidServer(this._uaid);
+    }
+    this.removeNetworkListener = this.network.onChange((online) => this.networkChanged(online));
+    this.sleepDetector?.start();
 
-    if (!this._websocket) {
+    if (!this.options.lazyConnect) {
       await this.connect();
     }
   }
 
-  async destroy() {
+  /**
+   * Resumes with the server the stored uaid belongs to, if it is still configured. Otherwise, migrates to the
+   * configured servers: the uaid is dropped, so the next hello obtains a new one and re-registers every subscription.
+   */
+  private async restoreUaidServer(uaid: string) {
+    const uaidUrl = await this.storage.read<string>("autopushUrl");
+    if (uaidUrl == null) {
+      // Stored before the server was tracked, assume it belongs to the preferred server
+      await this.storage.write("autopushUrl", this.endpoints.current);
+      return;
+    }
+    if (this.endpoints.select(uaidUrl)) {
+      return;
+    }
+
+    this.logger.info("Migrating subscriptions from previous autopush server", uaidUrl);
+    if (this.options.unregisterOnMigration && this.options.lazyConnect) {
+      // Unregistering opens a connection, which lazyConnect defers until connect is called
+      this.migrateOnConnect = uaidUrl;
+      return;
+    }
+    await this.migrate(uaidUrl, uaid);
+  }
+
+  /**
+   * Drops the uaid assigned by a server that is no longer configured, after unregistering its subscriptions from that
+   * server if configured to
+   */
+  private async migrate(uaidUrl: string, uaid: string) {
+    if (this.options.unregisterOnMigration) {
+      await unregisterFromServer(
+        this.webSocketFactory,
+        uaidUrl,
+        uaid,
+        this.subscriptionHandler.channelIDs,
+        this.options.connectTimeoutMs + this.options.helloTimeoutMs,
+        new NamespacedLogger(this.logger, "Migration"),
+      );
+    }
+    await this.resetUaid();
+  }
+
+  /**
+   * Completes a migration deferred by lazyConnect. Concurrent callers share the same migration
+   */
+  private async migrateDeferred() {
+    const uaidUrl = this.migrateOnConnect;
+    if (!uaidUrl || !this._uaid) {
+      return;
+    }
+    this.migration ??= this.migrate(uaidUrl, this._uaid);
+    try {
+      await this.migration;
+      this.migrateOnConnect = null;
+    } finally {
+      this.migration = null;
+    }
+  }
+
+  async connect() {
+    if (this._state === "destroyed") {
+      throw new Error("PushManager has been destroyed");
+    }
+    if (this.migrateOnConnect) {
+      await this.migrateDeferred();
+      // Read through the getter, as the check above narrowed _state and it may have changed while awaiting
+      if (this.state === "destroyed") {
+        throw new Error("PushManager has been destroyed");
+      }
+    }
+
+    this.reconnect = true;
+    this.clearWakeTimeout();
+    if (this.pendingHello) {
+      // Already connecting
+      return await this.pendingHello.promise;
+    }
+    if (this._websocket) {
+      return;
+    }
+    // Skip the remaining backoff delay
+    this.cancelReconnectDelay();
+
+    await this.openWebSocket();
+  }
+
+  async resetIdentity() {
+    if (this._state === "destroyed") {
+      throw new Error("PushManager has been destroyed");
+    }
+    if (!this.subscriptionHandler) {
+      throw new Error("class not initialized");
+    }
+
+    this.logger.info("Resetting identity");
+    // The uaid to abandon belongs to the configured server only once migrated
+    await this.migrateDeferred();
+    const uaid = this._uaid;
+    const channelIDs = this.subscriptionHandler.channelIDs;
+    this.clearWakeTimeout();
+    await this.closeGracefully("Resetting identity");
+    if (uaid && channelIDs.length > 0) {
+      await unregisterFromServer(
+        this.webSocketFactory,
+        this.endpoints.current,
+        uaid,
+        channelIDs,
+        this.options.connectTimeoutMs + this.options.helloTimeoutMs,
+        new NamespacedLogger(this.logger, "ResetIdentity"),
+      );
+    }
+    await this.resetUaid();
+
+    // Without a uaid, the hello handler re-registers every subscription with new keys
+    await this.connect();
+  }
+
+  async disconnect() {
+    if (this._state === "destroyed") {
+      throw new Error("PushManager has been destroyed");
+    }
+
+    this.clearWakeTimeout();
+    await this.closeGracefully("Client disconnected");
+    this.setState("idle");
+  }
+
+  /**
+   * Closes the websocket without reconnecting, after sending any pending acks
+   */
+  private async closeGracefully(reason: string) {
     this.reconnect = false;
-    this._websocket?.close();
-    this.mediator.destroy();
+    this.cancelReconnectDelay();
+    this.clearHandshakeTimeout();
+    this.clearHibernateTimeout();
+
+    const websocket = this._websocket;
+    if (websocket) {
+      await this.mediator.flushAcks();
+      const closed = this.websocketClosed;
+      websocket.close(1000, reason);
+      await closed;
+    } else {
+      // Waiting to reconnect, there is no socket whose close would reject a connect in progress
+      this.pendingHello?.reject(new Error(`${reason} before connecting`));
+      this.pendingHello = null;
+    }
+  }
+
+  /**
+   * Hibernates once the connection has gone `drainMs` without messages. Each message restarts the wait
+   */
+  private scheduleHibernation() {
+    if (!this.hibernation || this._state !== "connected") {
+      return;
+    }
+    this.clearHibernateTimeout();
+    this.hibernateTimeout = setTimeout(() => void this.hibernate(), this.hibernation.drainMs);
   }
 
-  private async connect() {
+  private async hibernate() {
+    this.hibernateTimeout = null;
+    if (!this.hibernation) {
+      return;
+    }
+    this.logger.debug("Hibernating");
+    await this.closeGracefully("Hibernating");
+    if (this._state === "destroyed") {
+      return;
+    }
+    this.setState("hibernating");
+    this.wakeTimeout = setTimeout(() => void this.wake(), this.hibernation.wakeIntervalMs);
+  }
+
+  private async wake() {
+    this.wakeTimeout = null;
+    this.logger.debug("Waking from hibernation");
+    if (!this.network.online) {
+      // Connect once the network returns
+      this.reconnect = true;
+      this.setState("offline");
+      return;
+    }
+    try {
+      await this.connect();
+    } catch (e) {
+      // Reconnecting continues unless the failure was terminal
+      this.logger.warn("Failed to connect after hibernating", e);
+    }
+  }
+
+  private clearHibernateTimeout() {
+    if (this.hibernateTimeout) {
+      clearTimeout(this.hibernateTimeout);
+      this.hibernateTimeout = null;
+    }
+  }
+
+  private clearWakeTimeout() {
+    if (this.wakeTimeout) {
+      clearTimeout(this.wakeTimeout);
+      this.wakeTimeout = null;
+    }
+  }
+
+  async destroy(options: DestroyOptions = {}) {
+    const { flushAcks = true, unregisterAll = false, wipeStorage = false } = options;
+    try {
+      if (unregisterAll && this._state !== "destroyed") {
+        await this.unregisterAll();
+      }
+      if (flushAcks && this._websocket) {
+        await this.mediator.flushAcks();
+      }
+    } finally {
+      this.reconnect = false;
+      this.setState("destroyed");
+      this.cancelReconnectDelay();
+      this.clearHandshakeTimeout();
+      this.clearHibernateTimeout();
+      this.clearWakeTimeout();
+      this.removeNetworkListener?.();
+      this.removeNetworkListener = null;
+      this.sleepDetector?.stop();
+      this.pendingHello?.reject(new Error("PushManager has been destroyed"));
+      this.pendingHello = null;
+      this._websocket?.close();
+      this.mediator.destroy();
+    }
+
+    if (wipeStorage) {
+      await this.subscriptionHandler?.removeAllSubscriptions();
+      await this.resetUaid();
+    }
+  }
+
+  /**
+   * Unregisters every subscription from the server, connecting first if needed. Subscriptions the server does not
+   * confirm within `operationTimeoutMs`, connecting included, remain registered
+   */
+  private async unregisterAll() {
+    if (!this.subscriptionHandler) {
+      return;
+    }
+    const channelIDs = this.subscriptionHandler.channelIDs;
+    if (channelIDs.length === 0) {
+      return;
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<void>((resolve) => {
+      timeout = setTimeout(resolve, this.options.operationTimeoutMs);
+    });
+    const unregistered = (async () => {
+      if (this._state !== "connected") {
+        await this.connect();
+      }
+      await Promise.all(channelIDs.map((channelID) => this.unsubscribe(channelID)));
+    })().catch((e) => this.logger.warn("Failed to unregister subscriptions", e));
+    await Promise.race([unregistered, deadline]);
+    clearTimeout(timeout);
+
+    const remaining = this.subscriptionHandler.channelIDs.filter((channelID) =>
+      channelIDs.includes(channelID),
+    );
+    if (remaining.length > 0) {
+      this.logger.warn("Server did not confirm unregistering all subscriptions", remaining);
+    }
+  }
+
+  private async openWebSocket() {
     if (this._websocket) {
       throw new Error("WebSocket already connected");
     }
 
-    const helloCompleted = new Promise<void>((resolve) => {
-      this._helloResolve = resolve;
+    // A pending hello spans reconnects until it either completes or times out. Attempts which fail fast, such as refused
+    // connections, do not trip the handshake timeouts, so the reconnects share one deadline
+    if (!this.pendingHello) {
+      const deadlineMs = this.options.connectTimeoutMs + this.options.helloTimeoutMs;
+      let settle!: { resolve: () => void; reject: (reason: Error) => void };
+      const promise = new Promise<void>((resolve, reject) => {
+        settle = { resolve, reject };
+      });
+      const deadline = setTimeout(() => {
+        this.logger.error(`Not connected within ${deadlineMs}ms`);
+        if (this.pendingHello === pendingHello) {
+          this.pendingHello = null;
+        }
+        // Reconnecting continues in the background
+        settle.reject(new ConnectTimeoutError(deadlineMs));
+      }, deadlineMs);
+      const pendingHello = {
+        promise,
+        resolve: () => {
+          clearTimeout(deadline);
+          settle.resolve();
+        },
+        reject: (reason: Error) => {
+          clearTimeout(deadline);
+          settle.reject(reason);
+        },
+      };
+      this.pendingHello = pendingHello;
+    }
+    const helloCompleted = this.pendingHello.promise;
+
+    this.setState("connecting");
+    // Any attempt made while the circuit is open probes whether the server recovered
+    this.circuitBreaker?.halfOpen();
+    const websocket = this.webSocketFactory(this.endpoints.current);
+    this._websocket = websocket;
+    let resolveClosed!: () => void;
+    this.websocketClosed = new Promise<void>((resolve) => {
+      resolveClosed = resolve;
     });
-    this._websocket = new WebSocket(this.options.autopushUrl);
+    this.startHandshakeTimeout(
+      websocket,
+      new ConnectTimeoutError(this.options.connectTimeoutMs),
+      this.options.connectTimeoutMs,
+    );
     this._websocket.onmessage = async (event) => {
       // this.logger.debug("Received ws message", event);
-      let messageData: AutoConnectServerMessage;
-      if (typeof event.data === "string") {
-        messageData = JSON.parse(event.data) as AutoConnectServerMessage;
-      } else if (event.data instanceof ArrayBuffer) {
-        messageData = JSON.parse(Buffer.from(event.data).toString()) as AutoConnectServerMessage;
-      } else {
-        this.logger.error("Unexpected message data type", event.data);
-        return;
+      try {
+        await this.mediator.handleFrame(event.data);
+      } catch (e) {
+        // Nothing awaits the socket's handlers, so a failure would otherwise go unhandled
+        this.logger.error("Failed to handle message", e);
+      }
+      // Still receiving, keep draining
+      if (this.hibernateTimeout) {
+        this.scheduleHibernation();
+      }
+    };
+    this._websocket.onerror = (e) => {
+      // Errors are always followed by a close event, which handles reconnecting
+      this.lastError = e.message ?? null;
+      this.logger.error("WebSocket error", this.lastError ?? e);
+
+      const certificateError = toCertificateError(e.error);
+      if (certificateError) {
+        this.eventManager.dispatchEvent("certificateerror", certificateError);
+        // Retrying will not fix the certificate, so fail the pending connect rather than waiting for a timeout, and
+        // stop reconnecting once the socket closes
+        this.connectionError = { action: "stop", error: certificateError };
+        this.clearHandshakeTimeout();
+        this.pendingHello?.reject(certificateError);
+        this.pendingHello = null;
       }
-      await this.mediator.handle(messageData);
     };
     this._websocket.onopen = async () => {
       this.wsOpenTime = new Date().getTime();
       this.logger.debug("WebSocket connection opened");
+      this.setState("awaitingHello");
+      this.startHandshakeTimeout(
+        websocket,
+        new HelloTimeoutError(this.options.helloTimeoutMs),
+        this.options.helloTimeoutMs,
+      );
       await this.mediator.send(HelloSender, {
         uaid: this._uaid,
-        channelIDs: this.subscriptionHandler.channelIDs,
+        // Without a uaid, the server doesn't know our channels. They are re-registered after hello
+        channelIDs: this._uaid ? this.subscriptionHandler.channelIDs : [],
       });
     };
     this._websocket.onclose = async (e) => {
       this.logger.debug("WebSocket connection closed", e.reason, e.code);
+      this.clearHandshakeTimeout();
+      this.mediator.stopKeepalive();
+      this.mediator.connectionClosed();
       this._websocket = null;
+      this.websocketClosed = null;
+      resolveClosed();
       const timeOpen = this.wsOpenTime == null ? 0 : new Date().getTime() - this.wsOpenTime;
       this.wsOpenTime = null;
       this.logger.debug(
         `WebSocket connection closed. Connection open for ${timeOpen / 1000} seconds`,
       );
 
-      // TODO: implement a backoff strategy
-      if (this.reconnect) {
-        await this.options.reconnectDelay().then(() => this.connect());
+      const close: CloseClassification = {
+        code: e.code,
+        reason: e.reason,
+        category: classifyCloseCode(e.code),
+      };
+      const connectionError = this.connectionError;
+      this.connectionError = null;
+      const disconnect: Disconnect = {
+        ...close,
+        action: this.reconnect
+          ? (connectionError?.action ?? this.options.disconnectPolicy(close))
+          : "stop",
+        error: connectionError?.error.message ?? this.lastError,
+      };
+      this.lastError = null;
+      this.logger.debug("WebSocket disconnected", disconnect);
+      this.eventManager.dispatchEvent("disconnected", disconnect);
+
+      this.lastCloseCode = e.code;
+      // A connection that stayed healthy long enough starts the backoff over
+      if (
+        this.helloTime != null &&
+        new Date().getTime() - this.helloTime >= this.backoff.resetAfterMs
+      ) {
+        this.reconnectAttempt = 0;
+      }
+      const failedBeforeHello = this.helloTime == null;
+      const reconnectImmediately = this.reconnectImmediately;
+      this.reconnectImmediately = false;
+      this.helloTime = null;
+
+      if (disconnect.action === "stop") {
+        this.pendingHello?.reject(connectionError?.error ?? new DisconnectedError(disconnect));
+        this.pendingHello = null;
+      }
+      if (!this.reconnect) {
+        return;
+      }
+
+      switch (disconnect.action) {
+        case "stop": {
+          this.logger.warn("Not reconnecting after disconnect", disconnect);
+          this.reconnect = false;
+          this.setState("idle");
+          if (connectionError) {
+            this.eventManager.dispatchEvent("fatal", [disconnect], connectionError.error);
+          }
+          return;
+        }
+        case "resetUaid": {
+          this.logger.warn("Resetting uaid after disconnect", disconnect);
+          await this.resetUaid();
+          break;
+        }
       }
+
+      // Attempts are bound to fail while offline, which says nothing about the server
+      const failoverUrl =
+        failedBeforeHello && this.network.online ? this.endpoints.recordFailure() : null;
+      if (failoverUrl) {
+        // A uaid is only known to the server that assigned it. Connecting without one makes the new server assign a
+        // fresh uaid, after which the hello handler re-registers every subscription
+        this.logger.warn("Failing over to another autopush server", failoverUrl);
+        await this.resetUaid();
+      }
+
+      if (failedBeforeHello && this.network.online && this.circuitBreaker) {
+        const breaker = this.circuitBreaker;
+        if (breaker.recordFailure(disconnect)) {
+          this.logger.warn(
+            "Connection attempts keep failing, opening the circuit",
+            breaker.failures,
+          );
+          this.eventManager.dispatchEvent("circuitopen", breaker.failures);
+        }
+        if (breaker.state === "open") {
+          // Including a failed probe, a connect call must not wait for the next probe, or forever if there is none
+          this.pendingHello?.reject(new CircuitOpenError(breaker.failures));
+          this.pendingHello = null;
+        }
+        if (breaker.state === "open" && breaker.probeIntervalMs == null) {
+          this.logger.error(
+            "Connection attempts keep failing, no longer reconnecting",
+            breaker.failures,
+          );
+          this.reconnect = false;
+          this.setState("idle");
+          this.eventManager.dispatchEvent(
+            "fatal",
+            breaker.failures,
+            new CircuitOpenError(breaker.failures),
+          );
+          return;
+        }
+      }
+
+      if (!this.network.online) {
+        this.logger.info("Network is offline, reconnecting once it returns");
+        this.setState("offline");
+        return;
+      }
+      this.setState("reconnecting");
+      if (reconnectImmediately) {
+        await this.reconnectNow();
+        return;
+      }
+      await this.reconnectWithBackoff();
     };
 
     await helloCompleted;
   }
+
+  addEventListener<K extends keyof PushManagerEvents>(
+    type: K,
+    listener: PushManagerEvents[K],
+  ): ListenerId {
+    return this.eventManager.addEventListener(type, listener);
+  }
+
+  removeEventListener<K extends keyof PushManagerEvents>(type: K, listenerId: ListenerId) {
+    this.eventManager.removeEventListener(type, listenerId);
+  }
+
+  /**
+   * Drops the current websocket without waiting for the server, then reconnects with backoff
+   * @param reason The reason for dropping the connection, used for logging
+   */
+  forceReconnect(reason: string) {
+    const websocket = this._websocket;
+    if (!websocket) {
+      return;
+    }
+    this.logger.warn("Forcing reconnect", reason);
+    if (websocket.terminate) {
+      // A dead connection never answers a close frame, so don't wait for one
+      websocket.terminate();
+    } else {
+      websocket.close();
+    }
+  }
+
+  private async reconnectWithBackoff() {
+    const context: ReconnectContext = {
+      attempt: ++this.reconnectAttempt,
+      lastCloseCode: this.lastCloseCode,
+    };
+    const probeIntervalMs =
+      this.circuitBreaker?.state === "open" ? this.circuitBreaker.probeIntervalMs : null;
+    const reconnectDelay = probeIntervalMs == null ? this.options.reconnectDelay : null;
+    const delayMs = reconnectDelay ? null : (probeIntervalMs ?? this.backoff.nextDelayMs(context));
+    this.logger.debug(
+      delayMs == null ? "Reconnecting after reconnectDelay" : `Reconnecting in ${delayMs}ms`,
+      context,
+    );
+
+    const elapsed = await new Promise<boolean>((resolve) => {
+      let timeout: NodeJS.Timeout | null = null;
+      const wait = { cancel: () => settle(false) };
+      const settle = (elapsed: boolean) => {
+        if (this.reconnectWait !== wait) {
+          return;
+        }
+        this.reconnectWait = null;
+        if (timeout) {
+          clearTimeout(timeout);
+        }
+        resolve(elapsed);
+      };
+      this.reconnectWait = wait;
+
+      if (reconnectDelay) {
+        reconnectDelay().then(
+          () => settle(true),
+          (e) => {
+            this.logger.warn("reconnectDelay failed, reconnecting anyway", e);
+            settle(true);
+          },
+        );
+      } else {
+        timeout = setTimeout(() => settle(true), delayMs ?? 0);
+      }
+    });
+
+    // A cancelled delay leaves connecting to whoever cancelled it
+    if (elapsed && this.reconnect) {
+      await this.reconnectNow();
+    }
+  }
+
+  /**
+   * Ends the delay before the next reconnect attempt without attempting it
+   * @returns Whether a reconnect attempt was waiting
+   */
+  private cancelReconnectDelay() {
+    const wait = this.reconnectWait;
+    wait?.cancel();
+    return wait != null;
+  }
+
+  private async reconnectNow() {
+    try {
+      await this.openWebSocket();
+    } catch (e) {
+      // The failed socket is closed, which schedules the next attempt
+      this.logger.warn("Reconnect attempt failed", e);
+    }
+  }
+
+  /**
+   * Replaces the connection after waking from sleep. Sockets often look open after a wake while being dead, so the
+   * current one is dropped rather than trusted, and no backoff applies to reconnecting.
+   */
+  private woke(sleptMs: number) {
+    this.logger.info(`Woke from sleep after ${sleptMs / 1000} seconds`);
+    this.eventManager.dispatchEvent("resumed", sleptMs);
+    if (!this.reconnect) {
+      return;
+    }
+
+    this.reconnectAttempt = 0;
+    if (this._websocket) {
+      this.reconnectImmediately = true;
+      this.forceReconnect("Woke from sleep");
+    } else if (this.cancelReconnectDelay()) {
+      void this.reconnectNow();
+    }
+  }
+
+  private networkChanged(online: boolean) {
+    this.logger.debug(`Network is ${online ? "online" : "offline"}`);
+    if (!this.reconnect) {
+      return;
+    }
+
+    if (!online && this.cancelReconnectDelay()) {
+      // Attempts are bound to fail, wait for the network instead
+      this.setState("offline");
+    } else if (online && this._state === "offline") {
+      // The network is back, there is no reason to keep backing off
+      this.reconnectAttempt = 0;
+      void this.reconnectNow();
+    }
+  }
+
+  /**
+   * Gives up on the websocket if the current handshake step does not complete in time.
+   *
+   * The pending hello is rejected with the given error and the socket is closed, which triggers a reconnect unless the
+   * manager is being torn down.
+   */
+  private startHandshakeTimeout(websocket: PushWebSocket, error: Error, timeoutMs: number) {
+    this.clearHandshakeTimeout();
+    this.handshakeTimeout = setTimeout(() => {
+      this.handshakeTimeout = null;
+      this.logger.error(error.message);
+      this.pendingHello?.reject(error);
+      this.pendingHello = null;
+      websocket.close();
+    }, timeoutMs);
+  }
+
+  private clearHandshakeTimeout() {
+    if (this.handshakeTimeout) {
+      clearTimeout(this.handshakeTimeout);
+      this.handshakeTimeout = null;
+    }
+  }
 }
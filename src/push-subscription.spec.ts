@@ -9,7 +9,12 @@ import { TestStorage } from "../spec/test-storage";
 import { extractPrivateJwk, webPushDecryptPrep, aesGcmDecrypt, removePadding } from "./crypto";
 import { ClientAckCodes, ServerNotification } from "./messages/message";
 import { GenericPushSubscription, PushSubscription } from "./push-subscription";
-import { fromBufferToUrlB64, joinNamespaces, newUuid } from "./string-manipulation";
+import {
+  fromBufferToUrlB64,
+  fromUrlB64ToB64,
+  joinNamespaces,
+  newUuid,
+} from "./string-manipulation";
 
 jest.mock("./crypto", () => {
   const originalCrypto = jest.requireActual("./crypto");
@@ -63,17 +68,35 @@ describe("PushSubscription", () => {
       expect(pushSubscription).toBeInstanceOf(PushSubscription);
     });
 
-    it("throws on missing applicationServerKey", async () => {
+    it("throws on missing applicationServerKey without a scope", async () => {
       await expect(
         PushSubscription.create(
           data.channelID,
           storage,
           data.endpoint,
-          { userVisibleOnly: true, applicationServerKey: null as unknown as string },
+          { userVisibleOnly: true, applicationServerKey: null },
           unsubscribeCallback,
           logger.setNamespace("test"),
         ),
-      ).rejects.toThrow("Only VAPID authenticated subscriptions are supported");
+      ).rejects.toThrow("Keyless subscriptions must have a scope");
+    });
+
+    it("writes the scope of a keyless subscription to storage", async () => {
+      const channelID = newUuid();
+      await PushSubscription.create(
+        channelID,
+        storage,
+        data.endpoint,
+        { userVisibleOnly: true, applicationServerKey: null, scope: "alerts" },
+        unsubscribeCallback,
+        logger.setNamespace("test"),
+      );
+
+      expect(await storage.read(joinNamespaces(channelID, "options"))).toEqual({
+        userVisibleOnly: true,
+        applicationServerKey: null,
+        scope: "alerts",
+      });
     });
 
     it("writes the endpoint to storage", async () => {
@@ -163,6 +186,23 @@ describe("PushSubscription", () => {
       expect(recoveredSubscription["options"]).toEqual(data.options);
     });
 
+    it("normalizes an application server key stored in standard base64", async () => {
+      const legacyKey = fromUrlB64ToB64(applicationPublicKey);
+      await storage
+        .extend(data.channelID)
+        .write("options", { ...data.options, applicationServerKey: legacyKey });
+
+      const recovered = await PushSubscription.recover(
+        data.channelID,
+        storage,
+        unsubscribeCallback,
+        logger.setNamespace("test").extend(data.channelID),
+      );
+
+      expect(legacyKey).toMatch(/=$/);
+      expect(recovered.options.applicationServerKey).toEqual(applicationPublicKey);
+    });
+
     it("reads the auth key from storage", async () => {
       expect(fromBufferToUrlB64(recoveredSubscription["keys"].auth)).toEqual(
         fromBufferToUrlB64(pushSubscription["keys"].auth),
@@ -1,5 +1,6 @@
 import type { Jsonify } from "type-fest";
 
+import { ApplicationServerKey, normalizeApplicationServerKey } from "./application-server-key";
 import {
   aesGcmDecrypt,
   generateEcKeys,
@@ -21,7 +22,6 @@ import { NamespacedLogger } from "./logger";
 import { RegisterHandler } from "./messages/handlers/register-handler";
 import { ClientAckCodes, ServerNotification } from "./messages/message";
 import { MessageMediator } from "./messages/message-mediator";
-import { RegisterSender } from "./messages/senders/register-sender";
 import { Storage } from "./storage";
 import {
   Uuid,
@@ -171,18 +171,21 @@ export class PushSubscription<
     logger: NamespacedLogger<string>,
     eventManager?: EventManager<PushSubscriptionEvents>,
   ) {
-    if (!options.applicationServerKey) {
-      throw new Error("Only VAPID authenticated subscriptions are supported");
+    const { userVisibleOnly, applicationServerKey, scope } = options;
+    let serializedOptions: Jsonify<PushSubscriptionOptions>;
+    if (applicationServerKey != null) {
+      serializedOptions = { userVisibleOnly, applicationServerKey };
+    } else if (scope) {
+      serializedOptions = { userVisibleOnly, applicationServerKey: null, scope };
+    } else {
+      throw new Error("Keyless subscriptions must have a scope");
     }
     const subscriptionStorage = storage.extend(channelID);
     // Throws on invalid endpoint
     const urlEndpoint = new URL(endpoint);
 
     await subscriptionStorage.write(STORAGE_KEYS.endpoint, endpoint);
-    await subscriptionStorage.write(STORAGE_KEYS.options, {
-      userVisibleOnly: options.userVisibleOnly,
-      applicationServerKey: options.applicationServerKey,
-    });
+    await subscriptionStorage.write(STORAGE_KEYS.options, serializedOptions);
 
     const keys = await PushSubscription.generateKeys(subscriptionStorage);
     return new PushSubscription(
@@ -208,12 +211,25 @@ export class PushSubscription<
     if (!keys) {
       throw new Error("No keys found for channel");
     }
-    const serializedOptions = await subscriptionStorage.read<PushSubscriptionOptions>(
+    let serializedOptions = await subscriptionStorage.read<PushSubscriptionOptions>(
       STORAGE_KEYS.options,
     );
     if (!serializedOptions) {
       throw new Error("No options found for channel");
     }
+    if (serializedOptions.applicationServerKey != null) {
+      try {
+        // Keys stored before they were normalized may be padded or standard base64
+        serializedOptions = {
+          ...serializedOptions,
+          applicationServerKey: normalizeApplicationServerKey(
+            serializedOptions.applicationServerKey,
+          ),
+        };
+      } catch (e) {
+        logger.warn("Stored application server key is invalid, keeping it as is", channelID, e);
+      }
+    }
     const endpoint = await subscriptionStorage.read<string>(STORAGE_KEYS.endpoint);
     if (!endpoint) {
       throw new Error("No endpoint found for channel");
@@ -237,10 +253,7 @@ export class PushSubscription<
       throw new Error("RegisterHandler not found, cannot complete registration.");
     }
 
-    const promise = handler.awaitRegister(this.options.applicationServerKey);
-    await mediator.send(RegisterSender, { options: this.options, eventManager: this.eventManager });
-    const pushSubscription = await promise;
-    return pushSubscription;
+    return await handler.register(this.options, this.eventManager);
   }
 
   async destroy() {
@@ -319,5 +332,23 @@ export class PushSubscription<
 
 export type PushSubscriptionOptions = {
   userVisibleOnly: boolean;
-  applicationServerKey: string;
+  /** The VAPID public key, in canonical base64url form, or null for a keyless subscription */
+  applicationServerKey: string | null;
+  /** Identifies a keyless subscription. Absent for VAPID subscriptions */
+  scope?: string;
+};
+
+/**
+ * The options accepted by `subscribe`. The application server key may be given in any form the native `PushManager`
+ * accepts, and is normalized to {@link PushSubscriptionOptions}
+ */
+export type PushSubscriptionOptionsInit = {
+  userVisibleOnly: boolean;
+  /** The VAPID public key. Omit it for a keyless subscription, whose push messages are not signed */
+  applicationServerKey?: ApplicationServerKey | null;
+  /**
+   * Identifies a keyless subscription, in place of the key. Only one keyless subscription exists per scope. Required
+   * without an `applicationServerKey`, and not allowed with one
+   */
+  scope?: string;
 };
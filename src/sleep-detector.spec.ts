@@ -0,0 +1,61 @@
+import { SleepDetector } from "./sleep-detector";
+
+describe("SleepDetector", () => {
+  let now: number;
+  let onWake: jest.Mock;
+  let detector: SleepDetector;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 0;
+    onWake = jest.fn();
+    detector = new SleepDetector({ intervalMs: 1000, thresholdMs: 5000 }, onWake, () => now);
+    detector.start();
+  });
+
+  afterEach(() => {
+    detector.stop();
+    jest.useRealTimers();
+  });
+
+  function tick(wallClockMs: number) {
+    now += wallClockMs;
+    jest.advanceTimersByTime(1000);
+  }
+
+  it("does not fire while ticks are on time", () => {
+    for (let i = 0; i < 10; i++) {
+      tick(1000);
+    }
+
+    expect(onWake).not.toHaveBeenCalled();
+  });
+
+  it("tolerates drift below the threshold", () => {
+    tick(5999);
+
+    expect(onWake).not.toHaveBeenCalled();
+  });
+
+  it("fires when a tick falls far behind the wall clock", () => {
+    tick(1000);
+    tick(61_000);
+
+    expect(onWake).toHaveBeenCalledWith(60_000);
+  });
+
+  it("measures drift from the previous tick", () => {
+    tick(61_000);
+    tick(1000);
+
+    expect(onWake).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not fire once stopped", () => {
+    detector.stop();
+
+    tick(61_000);
+
+    expect(onWake).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+export type SleepDetectionOptions = {
+  /** The interval between watchdog ticks. Defaults to 10 seconds (10000) */
+  intervalMs: number;
+  /**
+   * How far behind the wall clock a tick must fall to be considered a wake from sleep. Background tabs may delay timers
+   * by up to a minute, so smaller values risk false positives in browsers. Defaults to 60 seconds (60000)
+   */
+  thresholdMs: number;
+};
+
+export const defaultSleepDetectionOptions: SleepDetectionOptions = Object.freeze({
+  intervalMs: 10_000, // 10 seconds
+  thresholdMs: 60_000, // 60 seconds
+});
+
+/**
+ * Detects the machine waking from sleep with a watchdog timer. Timers do not run during sleep, so the first tick after
+ * waking arrives far later, by the wall clock, than it was scheduled for.
+ */
+export class SleepDetector {
+  private readonly options: SleepDetectionOptions;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+  /**
+   * @param options The watchdog interval and drift threshold
+   * @param onWake Called with the approximate duration of the sleep
+   * @param now The wall clock
+   */
+  constructor(
+    options: Partial<SleepDetectionOptions>,
+    private readonly onWake: (sleptMs: number) => void,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.options = { ...defaultSleepDetectionOptions, ...options };
+  }
+
+  start() {
+    if (this.interval) {
+      return;
+    }
+    this.lastTick = this.now();
+    this.interval = setInterval(() => this.tick(), this.options.intervalMs);
+    // The watchdog must not keep the process alive
+    (this.interval as { unref?: () => void }).unref?.();
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private tick() {
+    const now = this.now();
+    const driftMs = now - this.lastTick - this.options.intervalMs;
+    this.lastTick = now;
+    if (driftMs >= this.options.thresholdMs) {
+      this.onWake(driftMs);
+    }
+  }
+}
@@ -6,6 +6,7 @@ import { TestStorage } from "../spec/test-storage";
 
 import { Logger, NamespacedLogger } from "./logger";
 import { MessageMediator } from "./messages/message-mediator";
+import { PushManager } from "./push-manager";
 import { GenericPushSubscription } from "./push-subscription";
 import { newUuid } from "./string-manipulation";
 import { SubscriptionHandler } from "./subscription-handler";
@@ -122,27 +123,138 @@ describe("SubscriptionManager", () => {
     });
   });
 
+  describe("removeAllSubscriptions", () => {
+    beforeEach(async () => {
+      await manager.addSubscription(channelID, endpoint, options);
+    });
+
+    it("removes all subscriptions", async () => {
+      await manager.removeAllSubscriptions();
+      expect(manager.channelIDs).toEqual([]);
+    });
+
+    it("removes all subscriptions from storage", async () => {
+      await manager.removeAllSubscriptions();
+      expect([...storage.store.keys()]).toEqual([]);
+    });
+  });
+
   describe("reInitAllSubscriptions", () => {
+    let mediator: MockProxy<MessageMediator>;
+
     beforeEach(async () => {
+      mediator = mock<MessageMediator>({ pushManager: mock<PushManager>() });
       manager["subscriptions"].set(newUuid(), createMockSubscription());
       manager["subscriptions"].set(newUuid(), createMockSubscription());
       manager["subscriptions"].set(newUuid(), createMockSubscription());
+      await manager.markAllForReInit();
     });
 
     it("reInits all subscriptions", async () => {
-      await manager.reInitAllSubscriptions(mock<MessageMediator>());
+      await manager.reInitAllSubscriptions(mediator);
       for (const subscription of manager["subscriptions"].values()) {
         expect(subscription.reInit).toHaveBeenCalled();
       }
     });
 
+    it("notifies the push manager of each changed subscription", async () => {
+      const subscriptions = [...manager["subscriptions"].values()];
+      const newSubscriptions = subscriptions.map((subscription) => {
+        const newSubscription = createMockSubscription();
+        (subscription as MockProxy<GenericPushSubscription>).reInit.mockResolvedValue(
+          newSubscription,
+        );
+        return newSubscription;
+      });
+
+      await manager.reInitAllSubscriptions(mediator);
+
+      subscriptions.forEach((subscription, i) => {
+        expect(mediator.pushManager.subscriptionChanged).toHaveBeenCalledWith(
+          newSubscriptions[i],
+          subscription,
+        );
+      });
+    });
+
     it("deletes all old subscriptions", async () => {
       const existingIds = manager.channelIDs;
-      await manager.reInitAllSubscriptions(mock<MessageMediator>());
+      await manager.reInitAllSubscriptions(mediator);
       for (const channelID of existingIds) {
         expect(manager["subscriptions"].get(channelID)).toBeUndefined();
       }
     });
+
+    it("keeps subscriptions which failed to re-register for the next attempt", async () => {
+      const [failedID, ...otherIds] = manager.channelIDs;
+      const failed = manager["subscriptions"].get(failedID) as MockProxy<GenericPushSubscription>;
+      failed.reInit.mockRejectedValueOnce(new Error("Interrupted"));
+
+      await manager.reInitAllSubscriptions(mediator);
+
+      expect(manager.get(failedID)).toBe(failed);
+      otherIds.forEach((channelID) => expect(manager.get(channelID)).toBeNull());
+      expect(storage.store.get("reInitChannelIDs")).toEqual(JSON.stringify([failedID]));
+
+      await manager.reInitAllSubscriptions(mediator);
+
+      expect(manager.get(failedID)).toBeNull();
+      expect(failed.reInit).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("getAll", () => {
+    const data = [createSubscriptionData(), createSubscriptionData()];
+    beforeEach(async () => {
+      await Promise.all(data.map((data) => manager.addSubscription(...data)));
+    });
+
+    it("gets all subscriptions", () => {
+      expect(manager.getAll().map((subscription) => subscription.channelID)).toEqual(
+        expect.arrayContaining(data.map(([id]) => id)),
+      );
+    });
+  });
+
+  describe("listener", () => {
+    const listener = { added: jest.fn(), removed: jest.fn() };
+
+    beforeEach(async () => {
+      manager = await SubscriptionHandler.create(storage, unsubscribeCallback, logger, listener);
+    });
+
+    it("is informed of added subscriptions", async () => {
+      const subscription = await manager.addSubscription(channelID, endpoint, options);
+
+      expect(listener.added).toHaveBeenCalledWith(subscription);
+    });
+
+    it("is informed of removed subscriptions", async () => {
+      const subscription = await manager.addSubscription(channelID, endpoint, options);
+
+      await manager.removeSubscription(channelID);
+
+      expect(listener.removed).toHaveBeenCalledWith(subscription);
+    });
+
+    it("is informed of every subscription removed at once", async () => {
+      const subscription = await manager.addSubscription(channelID, endpoint, options);
+
+      await manager.removeAllSubscriptions();
+
+      expect(listener.removed).toHaveBeenCalledWith(subscription);
+    });
+
+    it("is informed of subscriptions replaced on reInit", async () => {
+      const mediator = mock<MessageMediator>({ pushManager: mock<PushManager>() });
+      const subscription = createMockSubscription();
+      manager["subscriptions"].set(newUuid(), subscription);
+      await manager.markAllForReInit();
+
+      await manager.reInitAllSubscriptions(mediator);
+
+      expect(listener.removed).toHaveBeenCalledWith(subscription);
+    });
   });
 
   describe("channelIDs", () => {
@@ -10,20 +10,34 @@ import {
 import { Storage } from "./storage";
 import { Uuid } from "./string-manipulation";
 
+/**
+ * Informed whenever a subscription is added or removed. Subscriptions recovered from storage on creation are not
+ * reported
+ */
+export type SubscriptionListener = {
+  added: (subscription: GenericPushSubscription) => void;
+  removed: (subscription: GenericPushSubscription) => void;
+};
+
 export class SubscriptionHandler {
   private readonly subscriptions: Map<Uuid, GenericPushSubscription> = new Map();
+  /** Channels not yet re-registered since the server assigned a new uaid, persisted to survive restarts */
+  private readonly reInitChannelIDs: Set<Uuid> = new Set();
+  private reInitting: Promise<void> = Promise.resolve();
   private constructor(
     private readonly storage: Storage,
     private readonly unsubscribeCallback: (channelID: Uuid) => Promise<void>,
     private readonly logger: NamespacedLogger<"SubscriptionHandler">,
+    private readonly listener: SubscriptionListener | null,
   ) {}
 
   static async create(
     storage: Storage,
     unsubscribeCallback: (channelID: Uuid) => Promise<void>,
     logger: NamespacedLogger<"SubscriptionHandler">,
+    listener: SubscriptionListener | null = null,
   ) {
-    const handler = new SubscriptionHandler(storage, unsubscribeCallback, logger);
+    const handler = new SubscriptionHandler(storage, unsubscribeCallback, logger, listener);
     await handler.loadSubscriptions();
     return handler;
   }
@@ -48,6 +62,7 @@ export class SubscriptionHandler {
     this.subscriptions.set(channelID, subscription);
     await this.writeChannelIds();
     this.logger.debug("Added subscription", { channelID, endpoint, options });
+    this.listener?.added(subscription);
     return subscription;
   }
 
@@ -60,9 +75,17 @@ export class SubscriptionHandler {
     return sub ?? null;
   }
 
+  getAll(): GenericPushSubscription[] {
+    return [...this.subscriptions.values()];
+  }
+
   getByApplicationServerKey(applicationServerKey: string): GenericPushSubscription | undefined {
-    return [...this.subscriptions.values()].find(
-      (sub) => sub.options.applicationServerKey === applicationServerKey,
+    return this.getAll().find((sub) => sub.options.applicationServerKey === applicationServerKey);
+  }
+
+  getByScope(scope: string): GenericPushSubscription | undefined {
+    return this.getAll().find(
+      (sub) => sub.options.applicationServerKey == null && sub.options.scope === scope,
     );
   }
 
@@ -76,23 +99,78 @@ export class SubscriptionHandler {
     await subscription.destroy();
     this.subscriptions.delete(channelID);
     await this.writeChannelIds();
+    if (this.reInitChannelIDs.delete(channelID)) {
+      await this.writeReInitChannelIds();
+    }
     this.logger.debug("Removed subscription", channelID);
+    this.listener?.removed(subscription);
   }
 
+  /**
+   * Removes every subscription, including its keys, and the list of channel ids from storage
+   */
+  async removeAllSubscriptions() {
+    const removed = this.getAll();
+    for (const subscription of removed) {
+      await subscription.destroy();
+    }
+    this.subscriptions.clear();
+    this.reInitChannelIDs.clear();
+    await this.storage.remove("channelIDs");
+    await this.storage.remove("reInitChannelIDs");
+    this.logger.debug("Removed all subscriptions");
+    removed.forEach((subscription) => this.listener?.removed(subscription));
+  }
+
+  /**
+   * Marks every subscription as unknown to the server, because it assigned a new uaid. Marked subscriptions are
+   * re-registered by {@link reInitAllSubscriptions}
+   */
+  async markAllForReInit() {
+    this.channelIDs.forEach((channelID) => this.reInitChannelIDs.add(channelID));
+    await this.writeReInitChannelIds();
+  }
+
+  /**
+   * Re-registers every subscription marked by {@link markAllForReInit}. Each re-registered subscription replaces the
+   * old one, while those the server does not confirm stay marked, to be retried after the next hello. Calls made while
+   * a previous one is still running wait for it, so a subscription is never re-registered twice at once.
+   */
   async reInitAllSubscriptions(mediator: MessageMediator) {
-    const existingIds = this.channelIDs;
-    for (const channelID of this.subscriptions.keys()) {
-      const uuid = channelID as Uuid;
-      const subscription = this.subscriptions.get(uuid);
+    const reInitting = this.reInitting.then(() => this.reInitMarkedSubscriptions(mediator));
+    this.reInitting = reInitting.catch(() => {});
+    await reInitting;
+  }
+
+  private async reInitMarkedSubscriptions(mediator: MessageMediator) {
+    // Iterate over a snapshot, re-registering adds new subscriptions to the map
+    for (const channelID of [...this.reInitChannelIDs]) {
+      const subscription = this.subscriptions.get(channelID);
       if (!subscription) {
-        this.logger.error("Subscription not found", uuid);
+        this.logger.error("Subscription not found", channelID);
+        this.reInitChannelIDs.delete(channelID);
+        await this.writeReInitChannelIds();
         continue;
       }
-      await subscription.reInit(mediator);
-    }
-    for (const channelID of existingIds) {
-      await this.subscriptions.get(channelID)?.destroy();
+
+      let newSubscription: GenericPushSubscription;
+      try {
+        newSubscription = await subscription.reInit(mediator);
+      } catch (e) {
+        this.logger.warn(
+          "Failed to re-register subscription, retrying after the next hello",
+          channelID,
+          e,
+        );
+        continue;
+      }
+      await subscription.destroy();
       this.subscriptions.delete(channelID);
+      this.reInitChannelIDs.delete(channelID);
+      await this.writeChannelIds();
+      await this.writeReInitChannelIds();
+      mediator.pushManager.subscriptionChanged(newSubscription, subscription);
+      this.listener?.removed(subscription);
     }
   }
 
@@ -101,6 +179,7 @@ export class SubscriptionHandler {
     if (!channelIDs) {
       return;
     }
+    const reInitChannelIDs = (await this.storage.read<string[]>("reInitChannelIDs")) ?? [];
     for (const channelID of channelIDs) {
       const uuid = channelID as Uuid;
       try {
@@ -111,6 +190,9 @@ export class SubscriptionHandler {
           this.logger,
         );
         this.subscriptions.set(uuid, subscription);
+        if (reInitChannelIDs.includes(uuid)) {
+          this.reInitChannelIDs.add(uuid);
+        }
       } catch (e) {
         this.logger.error("Failed to recover subscription", e);
       }
@@ -120,4 +202,8 @@ export class SubscriptionHandler {
   private async writeChannelIds() {
     await this.storage.write("channelIDs", this.channelIDs);
   }
+
+  private async writeReInitChannelIds() {
+    await this.storage.write("reInitChannelIDs", [...this.reInitChannelIDs]);
+  }
 }
@@ -0,0 +1,57 @@
+import { X509Certificate } from "crypto";
+import type { DetailedPeerCertificate } from "tls";
+import { rootCertificates } from "tls";
+
+import { localhostCertificate } from "../spec/constants";
+
+import { pinnedServerIdentityCheck, spkiPin, trustedCertificates } from "./tls";
+
+// Computed with `openssl x509 -pubkey -noout | openssl pkey -pubin -outform der | openssl dgst -sha256 -binary | base64`
+const localhostPin = "d4fp2xl2W7sVLMPoGCptAFAm+QcTyPOr7cNdoIzygK8=";
+
+describe("spkiPin", () => {
+  it("hashes the certificate's public key", () => {
+    expect(spkiPin(new X509Certificate(localhostCertificate).raw)).toEqual(localhostPin);
+  });
+});
+
+describe("pinnedServerIdentityCheck", () => {
+  const x509 = new X509Certificate(localhostCertificate);
+  const certificate = {
+    raw: x509.raw,
+    subject: { CN: "localhost" },
+    subjectaltname: x509.subjectAltName,
+  } as unknown as DetailedPeerCertificate;
+  certificate.issuerCertificate = certificate;
+
+  it("accepts a certificate matching a pin", () => {
+    expect(pinnedServerIdentityCheck([localhostPin])("localhost", certificate)).toBeUndefined();
+  });
+
+  it("rejects a certificate matching no pin", () => {
+    expect(pinnedServerIdentityCheck(["bm90IHRoZSBwaW4="])("localhost", certificate)).toEqual(
+      expect.objectContaining({ code: "CERT_PIN_MISMATCH" }),
+    );
+  });
+
+  it("rejects a certificate for another host, even if it matches a pin", () => {
+    expect(pinnedServerIdentityCheck([localhostPin])("example.com", certificate)).toEqual(
+      expect.objectContaining({ code: "ERR_TLS_CERT_ALTNAME_INVALID" }),
+    );
+  });
+});
+
+describe("trustedCertificates", () => {
+  it("keeps trusting the default root certificates", () => {
+    const trusted = trustedCertificates(localhostCertificate);
+
+    expect(trusted).toEqual(expect.arrayContaining([...rootCertificates]));
+    expect(trusted).toContain(localhostCertificate);
+  });
+
+  it("adds every given certificate", () => {
+    const trusted = trustedCertificates([localhostCertificate, localhostCertificate]);
+
+    expect(trusted).toHaveLength(rootCertificates.length + 2);
+  });
+});
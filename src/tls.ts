@@ -0,0 +1,68 @@
+import { createHash, X509Certificate } from "crypto";
+import type { DetailedPeerCertificate, PeerCertificate } from "tls";
+import { checkServerIdentity, rootCertificates } from "tls";
+
+import { CertificateError } from "./errors";
+
+/**
+ * TLS trust settings for connections made with the `ws` package in Node
+ */
+export type TlsOptions = {
+  /** Additional CA certificates, in PEM format, trusted on top of the system roots */
+  ca?: string | string[];
+  /**
+   * Base64 encoded SHA-256 hashes of the DER encoded SubjectPublicKeyInfo of trusted certificates. When set, the
+   * connection is rejected unless some certificate in the server's chain matches one of the pins
+   */
+  pins?: string[];
+};
+
+/**
+ * Lists the CA certificates to trust when additional ones are configured. Node replaces its root store with the `ca`
+ * option rather than adding to it, so the default roots are listed as well
+ * @param ca The additional CA certificates, in PEM format
+ */
+export function trustedCertificates(ca: string | string[]): string[] {
+  return [...rootCertificates].concat(ca);
+}
+
+/**
+ * Computes the pin of a certificate
+ * @param certificate The DER encoded certificate
+ * @returns The base64 encoded SHA-256 hash of the certificate's SubjectPublicKeyInfo
+ */
+export function spkiPin(certificate: Uint8Array) {
+  const publicKey = new X509Certificate(certificate).publicKey.export({
+    type: "spki",
+    format: "der",
+  });
+  return createHash("sha256").update(publicKey).digest("base64");
+}
+
+/**
+ * Creates a `checkServerIdentity` function which performs the default host name check, then requires some certificate
+ * in the chain to match one of the pins
+ */
+export function pinnedServerIdentityCheck(pins: string[]) {
+  const trusted = new Set(pins);
+  return (host: string, certificate: PeerCertificate): Error | undefined => {
+    const hostError = checkServerIdentity(host, certificate);
+    if (hostError) {
+      return hostError;
+    }
+
+    const seen = new Set<PeerCertificate>();
+    let current: PeerCertificate | undefined = certificate;
+    while (current && !seen.has(current)) {
+      if (current.raw && trusted.has(spkiPin(current.raw))) {
+        return undefined;
+      }
+      seen.add(current);
+      current = (current as Partial<DetailedPeerCertificate>).issuerCertificate;
+    }
+    return new CertificateError(
+      `No certificate in the chain for ${host} matches a pinned public key`,
+      "CERT_PIN_MISMATCH",
+    );
+  };
+}
@@ -0,0 +1,65 @@
+import { WebSocket as wsWebsocket } from "ws";
+
+import { Logger } from "./logger";
+import type { ProxyOptions } from "./proxy";
+import type { TlsOptions } from "./tls";
+import { isNode } from "./util";
+
+export type PushWebSocketMessageEvent = { readonly data: unknown };
+export type PushWebSocketErrorEvent = { readonly message?: string; readonly error?: unknown };
+export type PushWebSocketCloseEvent = { readonly code: number; readonly reason: string };
+
+/**
+ * The subset of the WebSocket interface the PushManager relies on. Both the native browser `WebSocket` and the `ws`
+ * package's `WebSocket` satisfy it.
+ */
+export interface PushWebSocket {
+  onopen: (() => void) | null;
+  onmessage: ((event: PushWebSocketMessageEvent) => void) | null;
+  onerror: ((event: PushWebSocketErrorEvent) => void) | null;
+  onclose: ((event: PushWebSocketCloseEvent) => void) | null;
+  /** The number of bytes queued by `send` but not yet transmitted */
+  readonly bufferedAmount: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  /** Immediately destroys the connection without a closing handshake, if supported */
+  terminate?(): void;
+}
+
+/**
+ * Creates the websocket used to connect to the autopush server
+ * @param url The autopush url to connect to
+ */
+export type WebSocketFactory = (url: string) => PushWebSocket;
+
+const WebSocket = globalThis.WebSocket || wsWebsocket;
+
+export const defaultWebSocketFactory: WebSocketFactory = (url) =>
+  // Native handlers are typed with richer events than PushWebSocket requires, which is fine at runtime
+  new WebSocket(url) as unknown as PushWebSocket;
+
+export type NodeTransportOptions = {
+  proxy: ProxyOptions | null;
+  tls: TlsOptions | null;
+};
+
+/**
+ * Creates the websocket factory used when none is provided. Node specific transport options are implemented by the
+ * `node` entry point, which supplies its own factory, so they are ignored in other environments and refused in Node
+ * when they reach this point.
+ */
+export function createDefaultWebSocketFactory(
+  options: NodeTransportOptions,
+  logger: Logger,
+): WebSocketFactory {
+  if (!options.proxy && !options.tls) {
+    return defaultWebSocketFactory;
+  }
+  if (!isNode) {
+    logger.warn("Proxy and TLS options are only supported in Node, ignoring");
+    return defaultWebSocketFactory;
+  }
+  throw new Error(
+    "Proxy and TLS options require createPushManager from the autopush-manager/node entry point",
+  );
+}